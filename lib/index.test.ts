@@ -1,5 +1,35 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
 import { describe, it, expect, vi, expectTypeOf } from 'vitest'
-import { all, allSettled, flow } from './index'
+import {
+  all,
+  allSettled,
+  flow,
+  stream,
+  defineGraph,
+  task,
+  generateWaterfallChart,
+  generateChromeTrace,
+  generateMermaidGraph,
+  generateDotGraph,
+  analyzeCriticalPath,
+  createOpenTelemetryHooks,
+  createLRUCache,
+  DependencyCycleError,
+  FlowAbortedError,
+  FlowEndError,
+  TaskGraphError,
+  TaskTimeoutError,
+} from './index'
+import type {
+  CacheStore,
+  GraphHookInfo,
+  OpenTelemetrySpan,
+  OpenTelemetryTracer,
+  TaskExecution,
+  TaskHookInfo,
+  TaskProgress,
+  TaskTiming,
+} from './index'
 
 /**
  * Utility function to sleep for a specified number of milliseconds
@@ -303,6 +333,113 @@ describe('all', () => {
     })
   })
 
+  describe('Dependency cycles', () => {
+    it('should reject with DependencyCycleError instead of hanging', async () => {
+      const promise = all({
+        async a(): Promise<number> {
+          return (await this.$.b) + 1
+        },
+        async b(): Promise<number> {
+          await sleep(10)
+          return (await this.$.a) + 1
+        },
+      })
+
+      await expect(promise).rejects.toBeInstanceOf(DependencyCycleError)
+      await expect(promise).rejects.toThrow(
+        'Dependency cycle detected: b -> a -> b',
+      )
+    }, 1000)
+
+    it('should expose the full cycle path', async () => {
+      const error = await all({
+        async a(): Promise<number> {
+          return await this.$.b
+        },
+        async b(): Promise<number> {
+          return await this.$.c
+        },
+        async c(): Promise<number> {
+          await sleep(10)
+          return await this.$.a
+        },
+      }).catch((err) => err)
+
+      expect(error).toBeInstanceOf(DependencyCycleError)
+      expect(error.name).toBe('DependencyCycleError')
+      expect(error.cycle).toEqual(['c', 'a', 'b', 'c'])
+    }, 1000)
+
+    it('should detect self-dependency', async () => {
+      await expect(
+        all({
+          async a(): Promise<number> {
+            return await this.$.a
+          },
+        }),
+      ).rejects.toThrow('Dependency cycle detected: a -> a')
+    }, 1000)
+
+    it('should not report a cycle for diamond dependencies', async () => {
+      const result = await all({
+        async a() {
+          await sleep(10)
+          return 1
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+        async c() {
+          return (await this.$.a) + 2
+        },
+        async d() {
+          return (await this.$.b) + (await this.$.c)
+        },
+      })
+
+      expect(result).toEqual({ a: 1, b: 2, c: 3, d: 5 })
+    })
+
+    it('should not report a cycle for a dependency that is never awaited', async () => {
+      const result = await allSettled({
+        async a() {
+          this.$.b
+          await sleep(30)
+          return 1
+        },
+        async b() {
+          await sleep(5)
+          return (await this.$.a) + 1
+        },
+      })
+
+      expect(result).toEqual({
+        a: { status: 'fulfilled', value: 1 },
+        b: { status: 'fulfilled', value: 2 },
+      })
+    })
+
+    it('should not report a cycle for a dependency that only has an error handler', async () => {
+      const result = await allSettled({
+        async a() {
+          const b = this.$.b
+          b.catch(() => {})
+          await sleep(30)
+          return 1
+        },
+        async b() {
+          await sleep(5)
+          return (await this.$.a) + 1
+        },
+      })
+
+      expect(result).toEqual({
+        a: { status: 'fulfilled', value: 1 },
+        b: { status: 'fulfilled', value: 2 },
+      })
+    })
+  })
+
   describe('Return values', () => {
     it('should return values of various types', async () => {
       const result = await all({
@@ -846,6 +983,27 @@ describe('allSettled', () => {
       })
     })
 
+    it('should reject every task on a dependency cycle', async () => {
+      const result = await allSettled({
+        async a(): Promise<number> {
+          return await this.$.b
+        },
+        async b(): Promise<number> {
+          await sleep(10)
+          return await this.$.a
+        },
+        async c() {
+          return 3
+        },
+      })
+
+      expect(result.a.status).toBe('rejected')
+      expect(result.b.status).toBe('rejected')
+      expect((result.a as any).reason).toBeInstanceOf(DependencyCycleError)
+      expect((result.a as any).reason).toBe((result.b as any).reason)
+      expect(result.c).toEqual({ status: 'fulfilled', value: 3 })
+    }, 1000)
+
     it('should handle multiple tasks depending on one failed task', async () => {
       const result = await allSettled({
         async a() {
@@ -1081,6 +1239,86 @@ describe('allSettled', () => {
       })
     })
   })
+
+  describe('Skipped tasks', () => {
+    it('should report tasks that failed because of a dependency as skipped', async () => {
+      const error = new Error('a failed')
+
+      const result = await allSettled(
+        {
+          async a() {
+            throw error
+          },
+          async b() {
+            return (await this.$.a) + 1
+          },
+          async c() {
+            return (await this.$.b) + 1
+          },
+          async d() {
+            return 'ok'
+          },
+        },
+        { reportSkipped: true },
+      )
+
+      expect(result.a).toEqual({ status: 'rejected', reason: error })
+      expect(result.b).toEqual({ status: 'skipped', reason: error, cause: 'a' })
+      expect(result.c).toEqual({ status: 'skipped', reason: error, cause: 'a' })
+      expect(result.d).toEqual({ status: 'fulfilled', value: 'ok' })
+    })
+
+    it('should report tasks that fail on their own as rejected', async () => {
+      const result = await allSettled(
+        {
+          async a() {
+            throw new Error('a failed')
+          },
+          async b() {
+            try {
+              await this.$.a
+            } catch {
+              throw new Error('b failed')
+            }
+          },
+        },
+        { reportSkipped: true },
+      )
+
+      expect(result.a.status).toBe('rejected')
+      expect(result.b.status).toBe('rejected')
+    })
+
+    it('should not report skipped tasks by default', async () => {
+      const result = await allSettled({
+        async a() {
+          throw new Error('a failed')
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      })
+
+      expect(result.b.status).toBe('rejected')
+    })
+
+    it('should include the skipped status in the result type', async () => {
+      const result = await allSettled(
+        {
+          async a() {
+            return 1
+          },
+        },
+        { reportSkipped: true },
+      )
+
+      expectTypeOf(result.a).toEqualTypeOf<
+        | { status: 'fulfilled'; value: number }
+        | { status: 'rejected'; reason: any }
+        | { status: 'skipped'; reason: any; cause: string }
+      >()
+    })
+  })
 })
 
 describe('Debug mode', () => {
@@ -1979,405 +2217,4746 @@ describe('Abort signal', () => {
   })
 })
 
-describe('flow', () => {
-  describe('Early exit scenarios', () => {
-    it('should exit immediately when first task calls $end()', async () => {
-      const executionOrder: string[] = []
-
-      const f = await flow<number>({
-        async task1() {
-          executionOrder.push('task1-start')
-          this.$end(42)
-          executionOrder.push('task1-after-end') // Never reached
-          return 1
-        },
-        async task2() {
-          executionOrder.push('task2-start')
-          await sleep(10)
-          const r = await this.$.task1 // Will throw FlowAbortedError
-          executionOrder.push('task2-after-await') // Never reached
-          return r + 10
+describe('Timeouts', () => {
+  describe('all() with timeouts', () => {
+    it('should reject with TaskTimeoutError when the graph times out', async () => {
+      const promise = all(
+        {
+          async a() {
+            await sleep(100)
+            return 1
+          },
         },
-      })
+        { timeout: 20 },
+      )
 
-      expect(f).toBe(42)
-      expect(executionOrder).toEqual(['task1-start', 'task2-start'])
+      await expect(promise).rejects.toBeInstanceOf(TaskTimeoutError)
+      await expect(promise).rejects.toThrow('Task "a" timed out after 20ms')
     })
 
-    it('should handle conditional early exit', async () => {
-      const getCached = async (shouldCache: boolean) => {
-        return await flow<string>({
-          async task1() {
-            const cached = shouldCache ? 'cached-value' : null
-            if (cached) this.$end(cached)
-            return 'api-value'
-          },
-          async task2() {
-            const data = await this.$.task1
-            this.$end(`transformed-${data}`)
-          },
-        })
-      }
+    it('should abort $signal of the timed out task with the timeout error', async () => {
+      let abortReason: any
 
-      const cached = await getCached(true)
-      expect(cached).toBe('cached-value')
+      const error = await all(
+        {
+          async slow() {
+            this.$signal.addEventListener('abort', () => {
+              abortReason = this.$signal.reason
+            })
+            await sleep(100)
+            return 1
+          },
+        },
+        { taskOptions: { slow: { timeout: 20 } } },
+      ).catch((err) => err)
 
-      const fromApi = await getCached(false)
-      expect(fromApi).toBe('transformed-api-value')
+      expect(error).toBeInstanceOf(TaskTimeoutError)
+      expect(error.task).toBe('slow')
+      expect(error.timeout).toBe(20)
+      expect(abortReason).toBe(error)
     })
 
-    it('should support race between tasks - first $end() wins', async () => {
-      const f = await flow<string>({
-        async fast() {
-          await sleep(10)
-          this.$end('fast won')
-        },
-        async slow() {
-          await sleep(100)
-          this.$end('slow won')
-        },
-      })
+    it('should abort sibling tasks when a task times out', async () => {
+      const abortEvents: string[] = []
 
-      expect(f).toBe('fast won')
-    })
+      await expect(
+        all(
+          {
+            async slow() {
+              await sleep(100)
+              return 1
+            },
+            async other() {
+              this.$signal.addEventListener('abort', () => {
+                abortEvents.push('other-aborted')
+              })
+              await sleep(50)
+              return 2
+            },
+          },
+          { taskOptions: { slow: { timeout: 10 } } },
+        ),
+      ).rejects.toThrow('Task "slow" timed out after 10ms')
 
-    it('should support race between tasks - verify slow does not override', async () => {
-      const executionOrder: string[] = []
+      expect(abortEvents).toEqual(['other-aborted'])
+    })
 
-      const f = await flow<string>({
-        async fast() {
-          executionOrder.push('fast-start')
-          await sleep(10)
-          executionOrder.push('fast-end')
-          this.$end('fast won')
-        },
-        async slow() {
-          executionOrder.push('slow-start')
-          await sleep(50)
-          executionOrder.push('slow-before-end')
-          this.$end('slow won')
-          executionOrder.push('slow-after-end') // Never reached
+    it('should not affect tasks that finish in time', async () => {
+      const result = await all(
+        {
+          async a() {
+            await sleep(10)
+            return 1
+          },
+          async b() {
+            return (await this.$.a) + 1
+          },
         },
-      })
+        { timeout: 200, taskOptions: { a: { timeout: 100 } } },
+      )
 
-      expect(f).toBe('fast won')
-      // Both should start, fast should end first
-      expect(executionOrder).toContain('fast-start')
-      expect(executionOrder).toContain('slow-start')
-      expect(executionOrder).toContain('fast-end')
+      expect(result).toEqual({ a: 1, b: 2 })
     })
-  })
 
-  describe('Dependency handling after $end()', () => {
+    it('should use the earlier of the graph and task timeouts', async () => {
+      await expect(
+        all(
+          {
+            async a() {
+              await sleep(100)
+              return 1
+            },
+          },
+          { timeout: 20, taskOptions: { a: { timeout: 1000 } } },
+        ),
+      ).rejects.toThrow('Task "a" timed out after 20ms')
+    })
+
+    it('should only accept known task names in taskOptions', async () => {
+      await all(
+        {
+          async a() {
+            return 1
+          },
+        },
+        {
+          taskOptions: {
+            // @ts-expect-error - unknown task name
+            b: { timeout: 10 },
+          },
+        },
+      )
+    })
+  })
+
+  describe('allSettled() with timeouts', () => {
+    it('should surface timeouts as rejected entries', async () => {
+      const result = await allSettled(
+        {
+          async slow() {
+            await sleep(100)
+            return 1
+          },
+          async fast() {
+            await sleep(10)
+            return 2
+          },
+        },
+        { taskOptions: { slow: { timeout: 20 } } },
+      )
+
+      expect(result.fast).toEqual({ status: 'fulfilled', value: 2 })
+      expect(result.slow.status).toBe('rejected')
+      expect((result.slow as any).reason).toBeInstanceOf(TaskTimeoutError)
+    })
+
+    it('should reject dependents with the timeout error', async () => {
+      const result = await allSettled(
+        {
+          async slow() {
+            await sleep(100)
+            return 1
+          },
+          async dependent() {
+            return (await this.$.slow) + 1
+          },
+        },
+        { taskOptions: { slow: { timeout: 20 } } },
+      )
+
+      expect((result.dependent as any).reason).toBe(
+        (result.slow as any).reason,
+      )
+    })
+
+    it('should not abort $signal of other tasks', async () => {
+      let otherAborted = false
+
+      const result = await allSettled(
+        {
+          async slow() {
+            await sleep(100)
+            return 1
+          },
+          async other() {
+            await sleep(40)
+            otherAborted = this.$signal.aborted
+            return 2
+          },
+        },
+        { taskOptions: { slow: { timeout: 10 } } },
+      )
+
+      expect(result.other).toEqual({ status: 'fulfilled', value: 2 })
+      expect(otherAborted).toBe(false)
+    })
+  })
+
+  describe('flow() with timeouts', () => {
+    it('should reject when the graph times out before $end()', async () => {
+      await expect(
+        flow<number>(
+          {
+            async task1() {
+              await sleep(100)
+              this.$end(1)
+            },
+          },
+          { timeout: 20 },
+        ),
+      ).rejects.toBeInstanceOf(TaskTimeoutError)
+    })
+  })
+
+  describe('Debug mode', () => {
+    it('should mark timed out tasks in the waterfall', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      await allSettled(
+        {
+          async slow() {
+            await sleep(100)
+            return 1
+          },
+          async failing() {
+            await sleep(20)
+            throw new Error('failed')
+          },
+        },
+        { debug: true, taskOptions: { slow: { timeout: 40 } } },
+      )
+
+      const output = consoleSpy.mock.calls[0][0]
+      expect(output).toContain('▒')
+      expect(output).toContain('▓')
+      expect(output).toContain('▒ = active (timed out)')
+
+      consoleSpy.mockRestore()
+    })
+
+    it('should not mention timeouts in the legend when none occurred', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      await all(
+        {
+          async a() {
+            return 1
+          },
+        },
+        { debug: true, timeout: 100 },
+      )
+
+      const output = consoleSpy.mock.calls[0][0]
+      expect(output).not.toContain('timed out')
+
+      consoleSpy.mockRestore()
+    })
+  })
+})
+
+describe('Retries', () => {
+  it('should re-invoke a failing task until it succeeds', async () => {
+    let calls = 0
+
+    const result = await all(
+      {
+        async flaky() {
+          calls++
+          if (calls < 3) throw new Error(`attempt ${calls} failed`)
+          return 'ok'
+        },
+      },
+      { taskOptions: { flaky: { retry: { attempts: 3, delay: 1 } } } },
+    )
+
+    expect(result).toEqual({ flaky: 'ok' })
+    expect(calls).toBe(3)
+  })
+
+  it('should reject with the last error after the final attempt', async () => {
+    let calls = 0
+
+    await expect(
+      all(
+        {
+          async flaky() {
+            calls++
+            throw new Error(`attempt ${calls} failed`)
+          },
+        },
+        { taskOptions: { flaky: { retry: { attempts: 2, delay: 1 } } } },
+      ),
+    ).rejects.toThrow('attempt 2 failed')
+    expect(calls).toBe(2)
+  })
+
+  it('should only expose the final outcome to dependents', async () => {
+    let calls = 0
+    const seen: string[] = []
+
+    const result = await allSettled(
+      {
+        async flaky() {
+          calls++
+          await sleep(5)
+          if (calls < 2) throw new Error('transient')
+          return 'ok'
+        },
+        async dependent() {
+          const value = await this.$.flaky
+          seen.push(value)
+          return value
+        },
+      },
+      { taskOptions: { flaky: { retry: { attempts: 3, delay: 1 } } } },
+    )
+
+    expect(result.dependent).toEqual({ status: 'fulfilled', value: 'ok' })
+    expect(seen).toEqual(['ok'])
+  })
+
+  it('should stop retrying when shouldRetry returns false', async () => {
+    const shouldRetry = vi.fn(
+      (error: unknown, _attempt: number) => (error as Error).message !== 'fatal',
+    )
+    let calls = 0
+
+    await expect(
+      all(
+        {
+          async flaky() {
+            calls++
+            throw new Error(calls === 1 ? 'transient' : 'fatal')
+          },
+        },
+        {
+          taskOptions: {
+            flaky: { retry: { attempts: 5, delay: 1, shouldRetry } },
+          },
+        },
+      ),
+    ).rejects.toThrow('fatal')
+
+    expect(calls).toBe(2)
+    expect(shouldRetry).toHaveBeenCalledTimes(2)
+    expect(shouldRetry.mock.calls[0][1]).toBe(1)
+    expect(shouldRetry.mock.calls[1][1]).toBe(2)
+  })
+
+  it('should back off exponentially between attempts', async () => {
+    const callTimes: number[] = []
+
+    await expect(
+      all(
+        {
+          async flaky() {
+            callTimes.push(performance.now())
+            throw new Error('failed')
+          },
+        },
+        {
+          taskOptions: {
+            flaky: {
+              retry: { attempts: 3, delay: 20, factor: 2, jitter: false },
+            },
+          },
+        },
+      ),
+    ).rejects.toThrow('failed')
+
+    expect(callTimes).toHaveLength(3)
+    expect(callTimes[1] - callTimes[0]).toBeGreaterThanOrEqual(18)
+    expect(callTimes[2] - callTimes[1]).toBeGreaterThanOrEqual(38)
+  })
+
+  it('should stop retrying when $signal is aborted', async () => {
+    let calls = 0
+
+    await expect(
+      all(
+        {
+          async flaky() {
+            calls++
+            throw new Error('transient')
+          },
+          async failing() {
+            await sleep(10)
+            throw new Error('sibling failed')
+          },
+        },
+        { taskOptions: { flaky: { retry: { attempts: 10, delay: 50 } } } },
+      ),
+    ).rejects.toThrow('sibling failed')
+
+    await sleep(100)
+    expect(calls).toBe(1)
+  })
+
+  it('should not retry the error of a failed dependency', async () => {
+    const error = new Error('a failed')
+    let calls = 0
+
+    const result = await allSettled(
+      {
+        async a(): Promise<number> {
+          throw error
+        },
+        async b() {
+          calls++
+          return await this.$.a
+        },
+      },
+      { taskOptions: { b: { retry: { attempts: 4, delay: 50 } } } },
+    )
+
+    expect(result.b).toEqual({ status: 'rejected', reason: error })
+    expect(calls).toBe(1)
+  })
+
+  it('should not retry a dependency cycle', async () => {
+    let calls = 0
+
+    const result = await allSettled(
+      {
+        async a(): Promise<number> {
+          return await this.$.b
+        },
+        async b(): Promise<number> {
+          calls++
+          await sleep(5)
+          return await this.$.a
+        },
+      },
+      { taskOptions: { b: { retry: { attempts: 4, delay: 50 } } } },
+    )
+
+    expect(result.b).toMatchObject({
+      status: 'rejected',
+      reason: expect.any(DependencyCycleError),
+    })
+    expect(calls).toBe(1)
+  })
+
+  it('should show retries in the waterfall', async () => {
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    let calls = 0
+
+    await all(
+      {
+        async flaky() {
+          calls++
+          await sleep(20)
+          if (calls < 2) throw new Error('transient')
+          return 'ok'
+        },
+      },
+      {
+        debug: true,
+        taskOptions: {
+          flaky: { retry: { attempts: 2, delay: 20, jitter: false } },
+        },
+      },
+    )
+
+    const output = consoleSpy.mock.calls[0][0]
+    expect(output).toMatch(/▓+-+█+/)
+    expect(output).toContain('- = retry backoff')
+
+    consoleSpy.mockRestore()
+  })
+})
+
+describe('Concurrency limit', () => {
+  const trackConcurrency = () => {
+    let running = 0
+    let maxRunning = 0
+    return {
+      get maxRunning() {
+        return maxRunning
+      },
+      async run<R>(ms: number, value: R): Promise<R> {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await sleep(ms)
+        running--
+        return value
+      },
+    }
+  }
+
+  it('should cap the number of running tasks', async () => {
+    const tracker = trackConcurrency()
+
+    const result = await all(
+      {
+        a: () => tracker.run(10, 1),
+        b: () => tracker.run(10, 2),
+        c: () => tracker.run(10, 3),
+        d: () => tracker.run(10, 4),
+        e: () => tracker.run(10, 5),
+      },
+      { concurrency: 2 },
+    )
+
+    expect(result).toEqual({ a: 1, b: 2, c: 3, d: 4, e: 5 })
+    expect(tracker.maxRunning).toBe(2)
+  })
+
+  it('should start queued tasks in declaration order', async () => {
+    const started: string[] = []
+
+    await all(
+      {
+        async a() {
+          started.push('a')
+          await sleep(10)
+        },
+        async b() {
+          started.push('b')
+          await sleep(5)
+        },
+        async c() {
+          started.push('c')
+        },
+      },
+      { concurrency: 1 },
+    )
+
+    expect(started).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should not deadlock when tasks wait on queued dependencies', async () => {
+    const result = await all(
+      {
+        async a() {
+          return (await this.$.b) + 1
+        },
+        async b() {
+          return (await this.$.c) + 1
+        },
+        async c() {
+          await sleep(5)
+          return 1
+        },
+      },
+      { concurrency: 1 },
+    )
+
+    expect(result).toEqual({ a: 3, b: 2, c: 1 })
+  }, 1000)
+
+  it('should not count tasks waiting on dependencies against the limit', async () => {
+    const tracker = trackConcurrency()
+
+    const result = await all(
+      {
+        async slow() {
+          return tracker.run(30, 'slow')
+        },
+        async waiting() {
+          return (await this.$.slow) + '!'
+        },
+        fast1: () => tracker.run(5, 1),
+        fast2: () => tracker.run(5, 2),
+      },
+      { concurrency: 2 },
+    )
+
+    expect(result).toEqual({
+      slow: 'slow',
+      waiting: 'slow!',
+      fast1: 1,
+      fast2: 2,
+    })
+    expect(tracker.maxRunning).toBe(2)
+  })
+
+  it('should keep the slot of a task that reads a dependency early', async () => {
+    const tracker = trackConcurrency()
+
+    const result = await all(
+      {
+        async a() {
+          const b = this.$.b
+          const a = await tracker.run(20, 'a')
+          return a + (await b)
+        },
+        b: () => tracker.run(10, 'b'),
+        c: () => tracker.run(10, 'c'),
+      },
+      { concurrency: 1 },
+    )
+
+    expect(result).toEqual({ a: 'ab', b: 'b', c: 'c' })
+    expect(tracker.maxRunning).toBe(1)
+  })
+
+  it('should work with allSettled()', async () => {
+    const tracker = trackConcurrency()
+
+    const result = await allSettled(
+      {
+        a: () => tracker.run(10, 1),
+        async b() {
+          await sleep(5)
+          throw new Error('b failed')
+        },
+        c: () => tracker.run(10, 3),
+      },
+      { concurrency: 1 },
+    )
+
+    expect(result.a).toEqual({ status: 'fulfilled', value: 1 })
+    expect(result.b.status).toBe('rejected')
+    expect(result.c).toEqual({ status: 'fulfilled', value: 3 })
+    expect(tracker.maxRunning).toBe(1)
+  })
+
+  it('should work with flow()', async () => {
+    const started: string[] = []
+
+    const f = await flow<string>(
+      {
+        async a() {
+          started.push('a')
+          await sleep(5)
+          this.$end('a')
+        },
+        async b() {
+          started.push('b')
+          this.$end('b')
+        },
+      },
+      { concurrency: 1 },
+    )
+
+    expect(f).toBe('a')
+    expect(started).toEqual(['a', 'b'])
+  })
+
+  it('should reject invalid limits', async () => {
+    await expect(
+      all(
+        {
+          async a() {
+            return 1
+          },
+        },
+        { concurrency: 0 },
+      ),
+    ).rejects.toThrow('Invalid concurrency 0')
+  })
+
+  it('should show queued time separately in the waterfall', async () => {
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    await all(
+      {
+        async a() {
+          await sleep(30)
+          return 1
+        },
+        async b() {
+          await sleep(30)
+          return 2
+        },
+      },
+      { debug: true, concurrency: 1 },
+    )
+
+    const output = consoleSpy.mock.calls[0][0]
+    expect(output).toMatch(/b +│ - +│ +[\d.]+ms │ ·+█+/)
+    expect(output).toContain('· = queued')
+
+    consoleSpy.mockRestore()
+  })
+})
+
+describe('flow', () => {
+  describe('Early exit scenarios', () => {
+    it('should exit immediately when first task calls $end()', async () => {
+      const executionOrder: string[] = []
+
+      const f = await flow<number>({
+        async task1() {
+          executionOrder.push('task1-start')
+          this.$end(42)
+          executionOrder.push('task1-after-end') // Never reached
+          return 1
+        },
+        async task2() {
+          executionOrder.push('task2-start')
+          await sleep(10)
+          const r = await this.$.task1 // Will throw FlowAbortedError
+          executionOrder.push('task2-after-await') // Never reached
+          return r + 10
+        },
+      })
+
+      expect(f).toBe(42)
+      expect(executionOrder).toEqual(['task1-start', 'task2-start'])
+    })
+
+    it('should handle conditional early exit', async () => {
+      const getCached = async (shouldCache: boolean) => {
+        return await flow<string>({
+          async task1() {
+            const cached = shouldCache ? 'cached-value' : null
+            if (cached) this.$end(cached)
+            return 'api-value'
+          },
+          async task2() {
+            const data = await this.$.task1
+            this.$end(`transformed-${data}`)
+          },
+        })
+      }
+
+      const cached = await getCached(true)
+      expect(cached).toBe('cached-value')
+
+      const fromApi = await getCached(false)
+      expect(fromApi).toBe('transformed-api-value')
+    })
+
+    it('should support race between tasks - first $end() wins', async () => {
+      const f = await flow<string>({
+        async fast() {
+          await sleep(10)
+          this.$end('fast won')
+        },
+        async slow() {
+          await sleep(100)
+          this.$end('slow won')
+        },
+      })
+
+      expect(f).toBe('fast won')
+    })
+
+    it('should support race between tasks - verify slow does not override', async () => {
+      const executionOrder: string[] = []
+
+      const f = await flow<string>({
+        async fast() {
+          executionOrder.push('fast-start')
+          await sleep(10)
+          executionOrder.push('fast-end')
+          this.$end('fast won')
+        },
+        async slow() {
+          executionOrder.push('slow-start')
+          await sleep(50)
+          executionOrder.push('slow-before-end')
+          this.$end('slow won')
+          executionOrder.push('slow-after-end') // Never reached
+        },
+      })
+
+      expect(f).toBe('fast won')
+      // Both should start, fast should end first
+      expect(executionOrder).toContain('fast-start')
+      expect(executionOrder).toContain('slow-start')
+      expect(executionOrder).toContain('fast-end')
+    })
+  })
+
+  describe('Dependency handling after $end()', () => {
     it('should throw FlowAbortedError when accessing dependencies after flow ends', async () => {
       const executionOrder: string[] = []
 
-      const f = await flow<number>({
-        async task1() {
-          executionOrder.push('task1')
-          this.$end(100)
+      const f = await flow<number>({
+        async task1() {
+          executionOrder.push('task1')
+          this.$end(100)
+        },
+        async task2() {
+          executionOrder.push('task2-start')
+          await sleep(20)
+          executionOrder.push('task2-before-await')
+          try {
+            await this.$.task1
+            executionOrder.push('task2-after-await') // Never reached
+          } catch (err: any) {
+            executionOrder.push(`task2-caught-${err.name}`)
+          }
+          return 2
+        },
+      })
+
+      expect(f).toBe(100)
+      expect(executionOrder).toContain('task1')
+      expect(executionOrder).toContain('task2-start')
+      // task2 should catch FlowAbortedError but it's caught silently by flow
+    })
+
+    it('should allow tasks to complete normally if they do not depend on ended tasks', async () => {
+      const f = await flow<string>({
+        async task1() {
+          await sleep(50)
+          this.$end('first')
+        },
+        async task2() {
+          await sleep(10)
+          this.$end('second')
+        },
+      })
+
+      // task2 finishes first, so its $end wins
+      expect(f).toBe('second')
+    })
+  })
+
+  describe('Error handling', () => {
+    it('should propagate real errors (not FlowEndError)', async () => {
+      await expect(
+        flow<number>({
+          async task1() {
+            throw new Error('Real error')
+          },
+          async task2() {
+            await sleep(10)
+            this.$end(42)
+          },
+        })
+      ).rejects.toThrow('Real error')
+    })
+
+    it('should handle errors in tasks with dependencies', async () => {
+      await expect(
+        flow<number>({
+          async task1() {
+            throw new Error('Task 1 failed')
+          },
+          async task2() {
+            const r = await this.$.task1 // Will throw the error from task1
+            this.$end(r + 1)
+          },
+        })
+      ).rejects.toThrow('Task 1 failed')
+    })
+
+    it('should reject on dependency cycles instead of hanging', async () => {
+      await expect(
+        flow<number>({
+          async task1(): Promise<number> {
+            return await this.$.task2
+          },
+          async task2(): Promise<number> {
+            const r = await this.$.task1
+            return this.$end(r)
+          },
+        })
+      ).rejects.toBeInstanceOf(DependencyCycleError)
+    }, 1000)
+  })
+
+  describe('Complex scenarios', () => {
+    it('should handle multiple tasks with complex dependencies', async () => {
+      const executionOrder: string[] = []
+
+      const f = await flow<{ cached: boolean; data: string }>({
+        async fetchUser() {
+          executionOrder.push('fetchUser')
+          await sleep(20)
+          return { id: 1, name: 'Alice' }
+        },
+        async fetchPosts() {
+          executionOrder.push('fetchPosts-start')
+          const user = await this.$.fetchUser
+          executionOrder.push(`fetchPosts-got-user-${user.id}`)
+          await sleep(10)
+          return [{ id: 1, title: 'Post 1' }]
+        },
+        async checkCache() {
+          executionOrder.push('checkCache')
+          await sleep(5)
+          // Simulate cache hit
+          this.$end({ cached: true, data: 'cached-result' })
+        },
+      })
+
+      expect(f).toEqual({ cached: true, data: 'cached-result' })
+      expect(executionOrder).toContain('checkCache')
+      // Other tasks may or may not complete depending on timing
+    })
+
+    it('should work with $signal for cleanup', async () => {
+      const abortedTasks: string[] = []
+
+      const f = await flow<string>({
+        async task1() {
+          await sleep(10)
+          this.$end('done')
+        },
+        async task2() {
+          try {
+            await sleep(100)
+          } catch (err) {
+            if (this.$signal.aborted) {
+              abortedTasks.push('task2')
+            }
+          }
+          return 'task2-done'
+        },
+      })
+
+      expect(f).toBe('done')
+      // Note: $signal is not automatically aborted by $end in current implementation
+      // This test verifies that $signal is available
+    })
+
+    it('should handle synchronous $end() call', async () => {
+      const f = await flow<number>({
+        task1() {
+          this.$end(123)
+          return 1
+        },
+        async task2() {
+          await sleep(10)
+          return 2
+        },
+      })
+
+      expect(f).toBe(123)
+    })
+
+    it('should handle early exit with complex return types', async () => {
+      const f = await flow<
+        { status: 'success'; data: number[] } | { status: 'error'; message: string }
+      >({
+        async task1() {
+          await sleep(10)
+          this.$end({ status: 'success', data: [1, 2, 3] })
+        },
+        async task2() {
+          await sleep(20)
+          this.$end({ status: 'error', message: 'Failed' })
+        },
+      })
+
+      expect(f).toEqual({ status: 'success', data: [1, 2, 3] })
+    })
+  })
+
+  describe('Type inference', () => {
+    it('should require explicit type parameter', async () => {
+      const f = await flow<number | string>({
+        async task1() {
+          this.$end(42)
+          return 1
+        },
+        async task2() {
+          this.$end('hello')
+          return 'world'
+        },
+      })
+
+      // f should be number | string | undefined
+      expectTypeOf(f).toMatchTypeOf<number | string | undefined>()
+    })
+  })
+
+  describe('Edge cases', () => {
+    it('should return undefined if no task calls $end()', async () => {
+      const result = await flow<number>({
+        async task1() {
+          return 1
+        },
+        async task2() {
+          return 2
+        },
+      })
+      expect(result).toBeUndefined()
+    })
+
+    it('should handle $end() with undefined value', async () => {
+      const f = await flow<undefined>({
+        async task1() {
+          this.$end(undefined)
+        },
+      })
+
+      expect(f).toBeUndefined()
+    })
+
+    it('should handle $end() with null value', async () => {
+      const f = await flow<null>({
+        async task1() {
+          this.$end(null)
+        },
+      })
+
+      expect(f).toBeNull()
+    })
+
+    it('should handle $end() with 0 value', async () => {
+      const f = await flow<number>({
+        async task1() {
+          this.$end(0)
+        },
+      })
+
+      expect(f).toBe(0)
+    })
+
+    it('should handle $end() with false value', async () => {
+      const f = await flow<boolean>({
+        async task1() {
+          this.$end(false)
+        },
+      })
+
+      expect(f).toBe(false)
+    })
+  })
+
+  describe('$end() with pending dependency resolvers', () => {
+    it('should not hang when $end() is called and other tasks are waiting on the ended task', async () => {
+      const f = await flow<undefined>({
+        async anonId() {
+          const anonId = null // simulate no anon ID
+          if (!anonId) {
+            this.$end(undefined)
+          }
+          return anonId!
+        },
+        async ip() {
+          return 'ip-value'
+        },
+        async claimChats() {
+          await this.$.anonId
+          return 'claimed'
+        },
+        async deleteId() {
+          await this.$.anonId
+          return 'deleted'
+        },
+        async track() {
+          await this.$.anonId
+          await this.$.ip
+          return 'tracked'
+        },
+      })
+
+      expect(f).toBeUndefined()
+    }, 1000) // 1s timeout - will fail if deadlocked
+
+    it('should not hang when $end() is called before dependent tasks call waitForDep', async () => {
+      const f = await flow<string>({
+        async fast() {
+          this.$end('done')
+        },
+        async slow() {
+          await sleep(50) // sleep so fast() has already called $end
+          await this.$.fast // should not hang
+          return 'slow-result'
+        },
+      })
+
+      expect(f).toBe('done')
+    }, 1000)
+  })
+
+  describe('External signal integration', () => {
+    it('should respect external abort signal', async () => {
+      const controller = new AbortController()
+
+      const promise = flow<string>(
+        {
+          async task1() {
+            // Check signal before sleeping
+            if (this.$signal.aborted) throw this.$signal.reason
+            await sleep(100)
+            if (this.$signal.aborted) throw this.$signal.reason
+            this.$end('done')
+          },
+          async task2() {
+            if (this.$signal.aborted) throw this.$signal.reason
+            await sleep(200)
+            if (this.$signal.aborted) throw this.$signal.reason
+            this.$end('also-done')
+          },
+        },
+        { signal: controller.signal }
+      )
+
+      // Abort after a short delay
+      setTimeout(() => controller.abort(new Error('Aborted')), 10)
+
+      await expect(promise).rejects.toThrow('Aborted')
+    })
+  })
+})
+
+describe('defineGraph', () => {
+  const createGraph = () => {
+    let userCalls = 0
+    const graph = defineGraph({
+      async user() {
+        const id = ++userCalls
+        await sleep(5)
+        return { id, name: 'Alice' }
+      },
+      async greeting() {
+        const user = await this.$.user
+        return `Hello, ${user.name} #${user.id}`
+      },
+    })
+    return { graph, getUserCalls: () => userCalls }
+  }
+
+  it('should run the graph with all()', async () => {
+    const { graph } = createGraph()
+
+    const result = await graph.all()
+
+    expect(result).toEqual({
+      user: { id: 1, name: 'Alice' },
+      greeting: 'Hello, Alice #1',
+    })
+  })
+
+  it('should run the graph with allSettled()', async () => {
+    const graph = defineGraph({
+      async a() {
+        return 1
+      },
+      async b() {
+        throw new Error('b failed')
+      },
+    })
+
+    const result = await graph.allSettled()
+
+    expect(result.a).toEqual({ status: 'fulfilled', value: 1 })
+    expect(result.b.status).toBe('rejected')
+  })
+
+  it('should run the graph with flow()', async () => {
+    const graph = defineGraph({
+      async a() {
+        return 1
+      },
+      async b() {
+        this.$end!((await this.$.a) + 1)
+      },
+    })
+
+    expect(await graph.flow<number>()).toBe(2)
+  })
+
+  it('should type $end as optional outside of flow()', async () => {
+    const graph = defineGraph({
+      async a() {
+        expectTypeOf(this.$end).toEqualTypeOf<
+          ((value: unknown) => never) | undefined
+        >()
+        if (this.$end) this.$end(1)
+        return 1
+      },
+      async b() {
+        // @ts-expect-error - $end is undefined when not run with flow()
+        this.$end(2)
+      },
+    })
+
+    expect((await graph.allSettled()).b).toMatchObject({ status: 'rejected' })
+    expect(await graph.flow<number>()).toBe(1)
+  })
+
+  it('should be reusable across runs', async () => {
+    const { graph, getUserCalls } = createGraph()
+
+    const [first, second] = await Promise.all([graph.all(), graph.all()])
+
+    expect(first.user.id).not.toBe(second.user.id)
+    expect(getUserCalls()).toBe(2)
+  })
+
+  it('should pass options to each run', async () => {
+    const { graph } = createGraph()
+
+    await expect(graph.all({ timeout: 1 })).rejects.toBeInstanceOf(
+      TaskTimeoutError,
+    )
+    await expect(graph.all({ timeout: 1000 })).resolves.toBeDefined()
+  })
+
+  it('should validate tasks when the graph is defined', () => {
+    expect(() =>
+      // @ts-expect-error
+      defineGraph({
+        async a() {
+          return 1
+        },
+        b: 2,
+      }),
+    ).toThrow('Task "b" is not a function')
+  })
+
+  it('should not be affected by later changes to the task object', async () => {
+    const tasks = {
+      async a() {
+        return 1
+      },
+    }
+    const graph = defineGraph(tasks)
+    tasks.a = async () => 2
+
+    expect(await graph.all()).toEqual({ a: 1 })
+  })
+
+  it('should infer result types', async () => {
+    const { graph } = createGraph()
+
+    const result = await graph.all()
+    const settled = await graph.allSettled()
+
+    expectTypeOf(result.user).toEqualTypeOf<{ id: number; name: string }>()
+    expectTypeOf(result.greeting).toEqualTypeOf<string>()
+    expectTypeOf(settled.greeting).toEqualTypeOf<
+      { status: 'fulfilled'; value: string } | { status: 'rejected'; reason: any }
+    >()
+  })
+})
+
+describe('Task input', () => {
+  it('should expose input as this.$input in all()', async () => {
+    const result = await all(
+      {
+        async user() {
+          return { id: this.$input.userId, locale: this.$input.locale }
+        },
+        async greeting() {
+          const user = await this.$.user
+          return user.locale === 'de' ? `Hallo ${user.id}` : `Hi ${user.id}`
+        },
+      },
+      { input: { userId: 'u1', locale: 'de' } },
+    )
+
+    expect(result).toEqual({
+      user: { id: 'u1', locale: 'de' },
+      greeting: 'Hallo u1',
+    })
+  })
+
+  it('should expose input as this.$input in allSettled()', async () => {
+    const result = await allSettled(
+      {
+        async a() {
+          return this.$input * 2
+        },
+      },
+      { input: 21 },
+    )
+
+    expect(result.a).toEqual({ status: 'fulfilled', value: 42 })
+  })
+
+  it('should expose input as this.$input in flow()', async () => {
+    const f = await flow<string>(
+      {
+        async a() {
+          this.$end(`hello ${this.$input.name}`)
+        },
+      },
+      { input: { name: 'world' } },
+    )
+
+    expect(f).toBe('hello world')
+  })
+
+  it('should be undefined when no input is given', async () => {
+    let input: unknown = 'not called'
+
+    await all({
+      async a() {
+        input = this.$input
+      },
+    })
+
+    expect(input).toBeUndefined()
+  })
+
+  it('should infer the input type', async () => {
+    await all(
+      {
+        async a() {
+          expectTypeOf(this.$input).toEqualTypeOf<{ userId: string }>()
+          // @ts-expect-error - unknown input property
+          return this.$input.missing
+        },
+      },
+      { input: { userId: 'u1' } },
+    )
+  })
+
+  it('should run a defined graph with different inputs', async () => {
+    const graph = defineGraph<{ userId: string }>()({
+      async user() {
+        await sleep(5)
+        return { id: this.$input.userId }
+      },
+      async profile() {
+        const user = await this.$.user
+        return `profile of ${user.id}`
+      },
+    })
+
+    const [first, second] = await Promise.all([
+      graph.all({ input: { userId: 'a' } }),
+      graph.all({ input: { userId: 'b' } }),
+    ])
+
+    expect(first.profile).toBe('profile of a')
+    expect(second.profile).toBe('profile of b')
+    expectTypeOf(first.user).toEqualTypeOf<{ id: string }>()
+
+    // @ts-expect-error - input must match the declared type
+    await graph.all({ input: { userId: 1 } })
+  })
+})
+
+describe('Lazy execution with targets', () => {
+  const createGraph = (started: string[]) =>
+    defineGraph({
+      async config() {
+        started.push('config')
+        return { theme: 'dark' }
+      },
+      async user() {
+        started.push('user')
+        await sleep(5)
+        return { name: 'Alice' }
+      },
+      async page() {
+        started.push('page')
+        const user = await this.$.user
+        return `page for ${user.name}`
+      },
+      async admin() {
+        started.push('admin')
+        return 'admin'
+      },
+    })
+
+  it('should only run targets and the tasks they need', async () => {
+    const started: string[] = []
+
+    const result = await all(
+      {
+        async user() {
+          started.push('user')
+          return { name: 'Alice' }
+        },
+        async page() {
+          started.push('page')
+          const user = await this.$.user
+          return `page for ${user.name}`
+        },
+        async admin() {
+          started.push('admin')
+          return 'admin'
+        },
+      },
+      { targets: ['page'] },
+    )
+
+    expect(result).toEqual({ page: 'page for Alice', user: { name: 'Alice' } })
+    expect(started).toEqual(['page', 'user'])
+    expect('admin' in result).toBe(false)
+
+    expectTypeOf(result.page).toEqualTypeOf<string>()
+    expectTypeOf(result.user).toEqualTypeOf<{ name: string } | undefined>()
+    expectTypeOf(result.admin).toEqualTypeOf<string | undefined>()
+  })
+
+  it('should start dependencies only when they are first accessed', async () => {
+    const events: string[] = []
+
+    await all(
+      {
+        async a() {
+          events.push('a-start')
+          await sleep(10)
+          events.push('a-needs-b')
+          return (await this.$.b) + 1
+        },
+        async b() {
+          events.push('b-start')
+          return 1
+        },
+      },
+      { targets: ['a'] },
+    )
+
+    expect(events).toEqual(['a-start', 'a-needs-b', 'b-start'])
+  })
+
+  it('should run every task without targets', async () => {
+    const started: string[] = []
+
+    await createGraph(started).all()
+
+    expect(started.sort()).toEqual(['admin', 'config', 'page', 'user'])
+  })
+
+  it('should narrow the result type to the requested keys', async () => {
+    const started: string[] = []
+
+    const result = await createGraph(started).all({
+      targets: ['page', 'config'],
+    })
+
+    expect(result).toEqual({
+      config: { theme: 'dark' },
+      page: 'page for Alice',
+      user: { name: 'Alice' },
+    })
+    expectTypeOf(result.page).toEqualTypeOf<string>()
+    expectTypeOf(result.config).toEqualTypeOf<{ theme: string }>()
+    expectTypeOf(result.user).toEqualTypeOf<{ name: string } | undefined>()
+    expectTypeOf(result.admin).toEqualTypeOf<string | undefined>()
+  })
+
+  it('should only accept known task names as targets', async () => {
+    await expect(
+      // @ts-expect-error - unknown target
+      createGraph([]).all({ targets: ['missing'] }),
+    ).rejects.toThrow('Unknown task "missing"')
+  })
+
+  it('should work with allSettled()', async () => {
+    const started: string[] = []
+
+    const result = await allSettled(
+      {
+        async config() {
+          started.push('config')
+          return { theme: 'dark' }
+        },
+        async broken() {
+          started.push('broken')
+          throw new Error('broken')
+        },
+      },
+      { targets: ['config'] },
+    )
+
+    expect(result).toEqual({
+      config: { status: 'fulfilled', value: { theme: 'dark' } },
+    })
+    expect(started).toEqual(['config'])
+  })
+
+  it('should work with flow()', async () => {
+    const started: string[] = []
+
+    const f = await flow<string>(
+      {
+        async page() {
+          started.push('page')
+          return 'page'
+        },
+        async admin() {
+          started.push('admin')
+          return 'admin'
+        },
+        async done() {
+          started.push('done')
+          this.$end(await this.$.page)
+        },
+      },
+      { targets: ['done'] },
+    )
+
+    expect(f).toBe('page')
+    expect(started).toEqual(['done', 'page'])
+  })
+})
+
+describe('Error classes', () => {
+  it('should have stable names', () => {
+    expect(new FlowEndError(1).name).toBe('FlowEndError')
+    expect(new FlowAbortedError().name).toBe('FlowAbortedError')
+    expect(new DependencyCycleError(['a', 'a']).name).toBe(
+      'DependencyCycleError',
+    )
+    expect(new TaskTimeoutError('a', 1).name).toBe('TaskTimeoutError')
+    expect(new TaskGraphError({}, {}).name).toBe('TaskGraphError')
+  })
+
+  it('should reject dependency access after $end() with FlowAbortedError', async () => {
+    let caught: unknown
+
+    await flow<string>({
+      async fast() {
+        this.$end('done')
+      },
+      async slow() {
+        await sleep(10)
+        try {
+          await this.$.fast
+        } catch (err) {
+          caught = err
+          throw err
+        }
+      },
+    })
+
+    expect(caught).toBeInstanceOf(FlowAbortedError)
+  })
+
+  describe('all() with aggregateErrors', () => {
+    it('should reject with a TaskGraphError listing every failure', async () => {
+      const errorA = new Error('a failed')
+      const errorC = new Error('c failed')
+
+      const error = await all(
+        {
+          async a() {
+            await sleep(5)
+            throw errorA
+          },
+          async b() {
+            return (await this.$.a) + 1
+          },
+          async c() {
+            throw errorC
+          },
+          async d() {
+            return 'ok'
+          },
+        },
+        { aggregateErrors: true },
+      ).catch((err) => err)
+
+      expect(error).toBeInstanceOf(TaskGraphError)
+      expect(error).toBeInstanceOf(AggregateError)
+      expect(error.taskErrors).toEqual({ a: errorA, b: errorA, c: errorC })
+      expect(error.dependencyFailures).toEqual({ b: 'a' })
+      expect(error.failedTasks.sort()).toEqual(['a', 'c'])
+      expect(error.errors).toHaveLength(2)
+      expect(error.errors).toContain(errorA)
+      expect(error.errors).toContain(errorC)
+    })
+
+    it('should wait for the failing wave to settle', async () => {
+      let slowSettled = false
+
+      const error = await all(
+        {
+          async failing() {
+            throw new Error('failed')
+          },
+          async slow() {
+            try {
+              await sleep(30)
+              return 'slow'
+            } finally {
+              slowSettled = true
+            }
+          },
+        },
+        { aggregateErrors: true },
+      ).catch((err) => err)
+
+      expect(error).toBeInstanceOf(TaskGraphError)
+      expect(slowSettled).toBe(true)
+      expect(Object.keys(error.taskErrors)).toEqual(['failing'])
+    })
+
+    it('should still abort sibling tasks', async () => {
+      let aborted = false
+
+      await all(
+        {
+          async failing() {
+            throw new Error('failed')
+          },
+          async slow() {
+            await sleep(10)
+            aborted = this.$signal.aborted
+          },
+        },
+        { aggregateErrors: true },
+      ).catch(() => {})
+
+      expect(aborted).toBe(true)
+    })
+
+    it('should resolve normally when no task fails', async () => {
+      const result = await all(
+        {
+          async a() {
+            return 1
+          },
+          async b() {
+            return (await this.$.a) + 1
+          },
+        },
+        { aggregateErrors: true },
+      )
+
+      expect(result).toEqual({ a: 1, b: 2 })
+    })
+
+    it('should not treat tasks that handle a dependency failure as collateral', async () => {
+      const error = await all(
+        {
+          async a() {
+            throw new Error('a failed')
+          },
+          async b() {
+            try {
+              await this.$.a
+            } catch {
+              throw new Error('b failed differently')
+            }
+          },
+        },
+        { aggregateErrors: true },
+      ).catch((err) => err)
+
+      expect(error.failedTasks.sort()).toEqual(['a', 'b'])
+      expect(error.dependencyFailures).toEqual({})
+    })
+
+    it('should treat tasks that were aborted by a failure as collateral', async () => {
+      const errorA = new Error('a failed')
+
+      const error = await all(
+        {
+          async a() {
+            await sleep(5)
+            throw errorA
+          },
+          async b() {
+            await new Promise((_, reject) => {
+              this.$signal.addEventListener('abort', () =>
+                reject(this.$signal.reason),
+              )
+            })
+          },
+          async c() {
+            await new Promise((_, reject) => {
+              this.$signal.addEventListener('abort', () => {
+                const abortError = new Error('aborted')
+                abortError.name = 'AbortError'
+                reject(abortError)
+              })
+            })
+          },
+        },
+        { aggregateErrors: true },
+      ).catch((err) => err)
+
+      expect(error).toBeInstanceOf(TaskGraphError)
+      expect(Object.keys(error.taskErrors).sort()).toEqual(['a', 'b', 'c'])
+      expect(error.failedTasks).toEqual(['a'])
+      expect(error.abortedTasks.sort()).toEqual(['b', 'c'])
+      expect(error.errors).toEqual([errorA])
+    })
+  })
+})
+
+describe('Tracing', () => {
+  it('should hand structured timings to onTrace without logging', async () => {
+    const consoleSpy = vi.spyOn(console, 'log')
+    const onTrace = vi.fn()
+
+    await all(
+      {
+        async a() {
+          await sleep(10)
+          return 1
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      { onTrace },
+    )
+
+    expect(consoleSpy).not.toHaveBeenCalled()
+    expect(onTrace).toHaveBeenCalledTimes(1)
+
+    const timings: TaskTiming[] = onTrace.mock.calls[0][0]
+    const a = timings.find((t) => t.name === 'a')!
+    const b = timings.find((t) => t.name === 'b')!
+
+    expect(a.status).toBe('fulfilled')
+    expect(a.dependencies).toEqual([])
+    expect(a.duration).toBeCloseTo(a.endTime - a.startTime)
+    expect(b.dependencies).toEqual(['a'])
+    expect(b.waitPeriods).toHaveLength(1)
+    expect(b.waitPeriods[0].end).toBeGreaterThanOrEqual(a.endTime)
+
+    consoleSpy.mockRestore()
+  })
+
+  it('should include the status and error of failed tasks', async () => {
+    const error = new Error('b failed')
+    let timings: TaskTiming[] = []
+
+    await allSettled(
+      {
+        async a() {
+          return 1
+        },
+        async b() {
+          throw error
+        },
+      },
+      {
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
+
+    const b = timings.find((t) => t.name === 'b')!
+    expect(b.status).toBe('rejected')
+    expect(b.error).toBe(error)
+    expect(timings.find((t) => t.name === 'a')!.error).toBeUndefined()
+  })
+
+  it('should call onTrace when all() rejects', async () => {
+    const onTrace = vi.fn()
+
+    await expect(
+      all(
+        {
+          async a() {
+            throw new Error('a failed')
+          },
+        },
+        { onTrace },
+      ),
+    ).rejects.toThrow('a failed')
+
+    expect(onTrace).toHaveBeenCalledTimes(1)
+    expect(onTrace.mock.calls[0][0][0].status).toBe('rejected')
+  })
+
+  it('should call onTrace in debug mode too', async () => {
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const onTrace = vi.fn()
+
+    await all(
+      {
+        async a() {
+          return 1
+        },
+      },
+      { debug: true, onTrace },
+    )
+
+    expect(consoleSpy).toHaveBeenCalledTimes(1)
+    expect(onTrace).toHaveBeenCalledTimes(1)
+
+    consoleSpy.mockRestore()
+  })
+
+  it('should format traced timings with generateWaterfallChart', async () => {
+    let timings: TaskTiming[] = []
+
+    await all(
+      {
+        async a() {
+          await sleep(10)
+          return 1
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      {
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
+
+    const output = generateWaterfallChart(timings)
+    expect(output).toContain('Task Execution Waterfall')
+    expect(output).toMatch(/b +│ a +│/)
+  })
+})
+
+describe('Chrome trace export', () => {
+  const trace = async () => {
+    let timings: TaskTiming[] = []
+    await allSettled(
+      {
+        async a() {
+          await sleep(10)
+          return 1
+        },
+        async b() {
+          const a = await this.$.a
+          await sleep(5)
+          return a + 1
+        },
+        async c() {
+          await this.$.b
+          throw new Error('c failed')
+        },
+      },
+      {
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
+    return generateChromeTrace(timings)
+  }
+
+  it('should give every task its own named track', async () => {
+    const { traceEvents } = await trace()
+
+    const threadNames = traceEvents
+      .filter((e) => e.ph === 'M' && e.name === 'thread_name')
+      .map((e) => [e.tid, e.args!.name])
+    expect(threadNames).toEqual([
+      [1, 'a'],
+      [2, 'b'],
+      [3, 'c'],
+    ])
+  })
+
+  it('should emit a slice per task with its status and dependencies', async () => {
+    const { traceEvents } = await trace()
+
+    const b = traceEvents.find((e) => e.cat === 'task' && e.name === 'b')!
+    expect(b.ph).toBe('X')
+    expect(b.tid).toBe(2)
+    expect(b.dur).toBeGreaterThan(0)
+    expect(b.args).toEqual({ status: 'fulfilled', dependencies: ['a'] })
+  })
+
+  it('should emit active and waiting slices', async () => {
+    const { traceEvents } = await trace()
+
+    const slices = traceEvents
+      .filter((e) => e.tid === 2 && e.cat !== 'task' && e.ph === 'X')
+      .map((e) => e.name)
+    expect(slices).toEqual(['active', 'waiting on a', 'active'])
+  })
+
+  it('should include error details on rejected slices', async () => {
+    const { traceEvents } = await trace()
+
+    const c = traceEvents.find((e) => e.cat === 'task' && e.name === 'c')!
+    expect(c.cname).toBe('terrible')
+    expect(c.args!.status).toBe('rejected')
+    expect(c.args!.error).toMatchObject({
+      name: 'Error',
+      message: 'c failed',
+    })
+  })
+
+  it('should draw flow arrows for dependencies', async () => {
+    const { traceEvents } = await trace()
+
+    const starts = traceEvents.filter((e) => e.ph === 's')
+    const finishes = traceEvents.filter((e) => e.ph === 'f')
+    expect(starts.map((e) => [e.name, e.tid])).toEqual([
+      ['a', 1],
+      ['b', 2],
+    ])
+    expect(finishes.map((e) => [e.name, e.tid])).toEqual([
+      ['a', 2],
+      ['b', 3],
+    ])
+    expect(starts.map((e) => e.id)).toEqual(finishes.map((e) => e.id))
+    expect(finishes[0].ts).toBeGreaterThanOrEqual(starts[0].ts)
+  })
+
+  it('should use microseconds relative to the first task', async () => {
+    let timings: TaskTiming[] = []
+    await all(
+      {
+        async a() {
+          await sleep(20)
+        },
+      },
+      {
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
+
+    const { traceEvents, displayTimeUnit } = generateChromeTrace(timings)
+    const a = traceEvents.find((e) => e.cat === 'task')!
+    expect(displayTimeUnit).toBe('ms')
+    expect(a.ts).toBe(0)
+    expect(a.dur).toBeCloseTo(timings[0].duration * 1000)
+  })
+
+  it('should be serializable to JSON', async () => {
+    const result = await trace()
+
+    expect(JSON.parse(JSON.stringify(result))).toEqual(result)
+  })
+
+  it('should handle empty timings', () => {
+    expect(generateChromeTrace([])).toEqual({
+      traceEvents: [],
+      displayTimeUnit: 'ms',
+    })
+  })
+})
+
+describe('Graph export', () => {
+  const timing = (
+    name: string,
+    startTime: number,
+    endTime: number,
+    dependencies: string[] = [],
+    status: TaskTiming['status'] = 'fulfilled',
+  ): TaskTiming => ({
+    name,
+    startTime,
+    endTime,
+    duration: endTime - startTime,
+    dependencies,
+    status,
+    waitPeriods: [],
+    queuedPeriods: [],
+    attempts: [],
+  })
+
+  const timings = [
+    timing('config', 0, 30),
+    timing('user', 0, 10),
+    timing('posts', 0, 20, ['user'], 'rejected'),
+    timing('page', 0, 50, ['config', 'user']),
+  ]
+
+  describe('generateMermaidGraph', () => {
+    it('should render nodes, edges and the critical path', () => {
+      expect(generateMermaidGraph(timings)).toBe(
+        [
+          'flowchart LR',
+          '  t0["config<br/>30.0ms · fulfilled"]',
+          '  t1["user<br/>10.0ms · fulfilled"]',
+          '  t2["posts<br/>20.0ms · rejected"]',
+          '  t3["page<br/>50.0ms · fulfilled"]',
+          '  t1 --> t2',
+          '  t0 --> t3',
+          '  t1 --> t3',
+          '  classDef critical stroke:#e8590c,stroke-width:3px',
+          '  classDef rejected fill:#ffe3e3',
+          '  classDef timedOut fill:#fff3bf',
+          '  class t0,t3 critical',
+          '  class t2 rejected',
+          '  linkStyle 1 stroke:#e8590c,stroke-width:3px',
+          '',
+        ].join('\n'),
+      )
+    })
+
+    it('should escape quotes in task names', () => {
+      const output = generateMermaidGraph([timing('say "hi"', 0, 1)])
+
+      expect(output).toContain('t0["say #quot;hi#quot;<br/>1.0ms · fulfilled"]')
+    })
+
+    it('should handle empty timings', () => {
+      expect(generateMermaidGraph([])).toBe(
+        [
+          'flowchart LR',
+          '  classDef critical stroke:#e8590c,stroke-width:3px',
+          '  classDef rejected fill:#ffe3e3',
+          '  classDef timedOut fill:#fff3bf',
+          '',
+        ].join('\n'),
+      )
+    })
+  })
+
+  describe('generateDotGraph', () => {
+    it('should render nodes, edges and the critical path', () => {
+      expect(generateDotGraph(timings)).toBe(
+        [
+          'digraph tasks {',
+          '  rankdir=LR',
+          '  node [shape=box, style=rounded]',
+          '  "config" [label="config\\n30.0ms · fulfilled", color="#e8590c", penwidth=3]',
+          '  "user" [label="user\\n10.0ms · fulfilled"]',
+          '  "posts" [label="posts\\n20.0ms · rejected", style="rounded,filled", fillcolor="#ffe3e3"]',
+          '  "page" [label="page\\n50.0ms · fulfilled", color="#e8590c", penwidth=3]',
+          '  "user" -> "posts"',
+          '  "config" -> "page" [color="#e8590c", penwidth=3]',
+          '  "user" -> "page"',
+          '}',
+          '',
+        ].join('\n'),
+      )
+    })
+
+    it('should escape quotes in task names', () => {
+      const output = generateDotGraph([timing('say "hi"', 0, 1)])
+
+      expect(output).toContain('"say \\"hi\\"" [label="say \\"hi\\"\\n')
+    })
+  })
+
+  it('should follow the chain of dependencies that finished last', async () => {
+    let timings: TaskTiming[] = []
+    await all(
+      {
+        async a() {
+          await sleep(20)
+          return 1
+        },
+        async b() {
+          await sleep(5)
+          return 2
+        },
+        async c() {
+          return (await this.$.a) + 1
+        },
+        async d() {
+          const [b, c] = await Promise.all([this.$.b, this.$.c])
+          await sleep(5)
+          return b + c
+        },
+      },
+      {
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
+
+    const output = generateDotGraph(timings)
+    expect(output).toContain('"a" -> "c" [color="#e8590c", penwidth=3]')
+    expect(output).toContain('"c" -> "d" [color="#e8590c", penwidth=3]')
+    expect(output).toContain('"b" -> "d"\n')
+    expect(output).toMatch(/"b" \[label="b\\n[\d.]+ms · fulfilled"\]/)
+  })
+})
+
+describe('Critical path analysis', () => {
+  const timing = (
+    name: string,
+    startTime: number,
+    endTime: number,
+    waitPeriods: TaskTiming['waitPeriods'] = [],
+  ): TaskTiming => ({
+    name,
+    startTime,
+    endTime,
+    duration: endTime - startTime,
+    dependencies: waitPeriods.map((w) => w.dependency),
+    status: 'fulfilled',
+    waitPeriods,
+    queuedPeriods: [],
+    attempts: [],
+  })
+
+  // config: ██████
+  // user:   ██
+  // posts:  ░░██
+  // page:   ░░░░░░███
+  const timings = [
+    timing('config', 0, 30),
+    timing('user', 0, 10),
+    timing('posts', 0, 20, [{ start: 0, end: 10, dependency: 'user' }]),
+    timing('page', 0, 45, [
+      { start: 0, end: 30, dependency: 'config' },
+      { start: 0, end: 20, dependency: 'posts' },
+    ]),
+  ]
+
+  it('should find the chain of tasks that determined the duration', () => {
+    const analysis = analyzeCriticalPath(timings)
+
+    expect(analysis.criticalPath).toEqual(['config', 'page'])
+    expect(analysis.totalDuration).toBe(45)
+  })
+
+  it('should compute how much each task could have been delayed', () => {
+    const { slack } = analyzeCriticalPath(timings)
+
+    expect(slack).toEqual({ config: 0, user: 10, posts: 10, page: 0 })
+  })
+
+  it('should count the time before a dependent needed the task as slack', () => {
+    const { slack } = analyzeCriticalPath([
+      timing('a', 0, 10),
+      timing('b', 0, 40, [{ start: 25, end: 25, dependency: 'a' }]),
+    ])
+
+    expect(slack).toEqual({ a: 15, b: 0 })
+  })
+
+  it('should let later waits of a dependent absorb delays', () => {
+    // fast: █
+    // slow: ██████████
+    // m:    ░█░░░░░░░░█
+    const { slack, lateAwaits } = analyzeCriticalPath([
+      timing('fast', 0, 10),
+      timing('slow', 0, 100),
+      timing('m', 0, 110, [
+        { start: 0, end: 10, dependency: 'fast' },
+        { start: 20, end: 100, dependency: 'slow' },
+      ]),
+    ])
+
+    expect(slack).toEqual({ fast: 80, slow: 0, m: 0 })
+    expect(lateAwaits).toEqual([
+      { task: 'm', dependency: 'slow', waited: 80, saving: 10 },
+    ])
+  })
+
+  it('should flag awaits that blocked the critical path too early', () => {
+    const { lateAwaits } = analyzeCriticalPath(timings)
+
+    expect(lateAwaits).toEqual([
+      { task: 'page', dependency: 'config', waited: 30, saving: 15 },
+    ])
+  })
+
+  it('should not flag awaits that did not block', () => {
+    const { lateAwaits } = analyzeCriticalPath([
+      timing('a', 0, 10),
+      timing('b', 0, 30, [{ start: 20, end: 20, dependency: 'a' }]),
+    ])
+
+    expect(lateAwaits).toEqual([])
+  })
+
+  it('should limit the saving to the time spent waiting', () => {
+    const { lateAwaits } = analyzeCriticalPath([
+      timing('a', 0, 5),
+      timing('b', 0, 30, [{ start: 0, end: 5, dependency: 'a' }]),
+    ])
+
+    expect(lateAwaits).toEqual([
+      { task: 'b', dependency: 'a', waited: 5, saving: 5 },
+    ])
+  })
+
+  it('should handle empty timings', () => {
+    expect(analyzeCriticalPath([])).toEqual({
+      criticalPath: [],
+      totalDuration: 0,
+      slack: {},
+      lateAwaits: [],
+    })
+  })
+
+  it('should print the analysis under the waterfall chart', async () => {
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    await all(
+      {
+        async config() {
+          await sleep(20)
+          return 1
+        },
+        async user() {
+          await sleep(5)
+          return 2
+        },
+        async page() {
+          const config = await this.$.config
+          await sleep(10)
+          return config + (await this.$.user)
+        },
+      },
+      { debug: true },
+    )
+
+    expect(consoleSpy).toHaveBeenCalledTimes(1)
+    const output: string = consoleSpy.mock.calls[0][0]
+    expect(output).toMatch(/Critical Path: config → page \([\d.]+ms\)/)
+    expect(output).toMatch(/Slack: user [\d.]+ms\n/)
+    expect(output).toContain('page waited')
+    expect(output).toContain('Moving `await this.$.config`')
+    expect(output.indexOf('Critical Path')).toBeGreaterThan(
+      output.indexOf('Legend'),
+    )
+
+    consoleSpy.mockRestore()
+  })
+})
+
+describe('Lifecycle hooks', () => {
+  it('should call start and end hooks with task info', async () => {
+    const events: string[] = []
+    let signal: AbortSignal | undefined
+    let endInfo: (TaskHookInfo & { result: unknown }) | undefined
+
+    const result = await all(
+      {
+        async a() {
+          signal = this.$signal
+          return 1
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      {
+        input: { userId: 1 },
+        hooks: {
+          onTaskStart(task) {
+            events.push(`start ${task.name}`)
+          },
+          onTaskEnd(task) {
+            events.push(`end ${task.name}`)
+            if (task.name === 'b') endInfo = task
+            if (task.name === 'a') expect(task.signal).toBe(signal)
+          },
+        },
+      },
+    )
+
+    expect(result).toEqual({ a: 1, b: 2 })
+    expect(events).toEqual(['start a', 'start b', 'end a', 'end b'])
+    expect(endInfo).toMatchObject({
+      name: 'b',
+      dependencies: ['a'],
+      input: { userId: 1 },
+      result: 2,
+    })
+    expect(endInfo!.signal).toBeInstanceOf(AbortSignal)
+  })
+
+  it('should call error hooks for failed tasks', async () => {
+    const onTaskError = vi.fn()
+    const onTaskEnd = vi.fn()
+
+    await allSettled(
+      {
+        async a() {
+          await sleep(10)
+          throw new Error('a failed')
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      { hooks: { onTaskError, onTaskEnd } },
+    )
+
+    expect(onTaskEnd).not.toHaveBeenCalled()
+    expect(onTaskError).toHaveBeenCalledTimes(2)
+    expect(onTaskError.mock.calls[0][0]).toMatchObject({
+      name: 'a',
+      dependencies: [],
+      error: new Error('a failed'),
+    })
+    expect(onTaskError.mock.calls[0][0].duration).toBeGreaterThanOrEqual(5)
+    expect(onTaskError.mock.calls[1][0]).toMatchObject({
+      name: 'b',
+      dependencies: ['a'],
+      error: new Error('a failed'),
+    })
+  })
+
+  it('should settle tasks whose error hook throws', async () => {
+    const hooks = {
+      onTaskError() {
+        throw new Error('hook failed')
+      },
+    }
+
+    const result = await allSettled(
+      {
+        async a(): Promise<number> {
+          throw new Error('a failed')
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      { hooks },
+    )
+
+    expect(result).toEqual({
+      a: { status: 'rejected', reason: new Error('hook failed') },
+      b: { status: 'rejected', reason: new Error('hook failed') },
+    })
+
+    await expect(
+      flow<number>(
+        {
+          async a(): Promise<number> {
+            throw new Error('a failed')
+          },
+          async b() {
+            return this.$end((await this.$.a) + 1)
+          },
+        },
+        { hooks },
+      ),
+    ).rejects.toThrow('hook failed')
+  })
+
+  it('should record a single timing when an end hook throws', async () => {
+    const onTrace = vi.fn()
+
+    await allSettled(
+      {
+        async a() {
+          return 1
+        },
+      },
+      {
+        hooks: {
+          onTaskEnd() {
+            throw new Error('hook failed')
+          },
+        },
+        onTrace,
+      },
+    )
+
+    const timings: TaskTiming[] = onTrace.mock.calls[0][0]
+    expect(timings).toHaveLength(1)
+    expect(timings[0]).toMatchObject({
+      name: 'a',
+      status: 'rejected',
+      error: new Error('hook failed'),
+    })
+  })
+
+  it('should call onDependencyWait only for pending dependencies', async () => {
+    const waits: string[] = []
+
+    await all(
+      {
+        async a() {
+          await sleep(10)
+          return 1
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+        async c() {
+          await sleep(30)
+          return (await this.$.a) + (await this.$.b)
+        },
+      },
+      {
+        hooks: {
+          onDependencyWait(task, dependency) {
+            waits.push(`${task.name} -> ${dependency}`)
+          },
+        },
+      },
+    )
+
+    expect(waits).toEqual(['b -> a'])
+  })
+
+  it('should chain wrappers with the first hook outermost', async () => {
+    const events: string[] = []
+
+    const result = await all(
+      {
+        async a() {
+          events.push('run a')
+          return 1
+        },
+      },
+      {
+        hooks: [
+          {
+            async wrapTask(task, next) {
+              events.push(`outer before ${task.name}`)
+              const value = await next()
+              events.push(`outer after ${task.name}`)
+              return value
+            },
+          },
+          {
+            async wrapTask(task, next) {
+              events.push(`inner before ${task.name}`)
+              const value = await next()
+              events.push(`inner after ${task.name}`)
+              return value
+            },
+          },
+        ],
+      },
+    )
+
+    expect(result).toEqual({ a: 1 })
+    expect(events).toEqual([
+      'outer before a',
+      'inner before a',
+      'run a',
+      'inner after a',
+      'outer after a',
+    ])
+  })
+
+  it('should let wrappers change the result', async () => {
+    const result = await all(
+      {
+        async a() {
+          return 1
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      {
+        hooks: {
+          async wrapTask(task, next) {
+            const value = (await next()) as number
+            return task.name === 'a' ? value * 10 : value
+          },
+        },
+      },
+    )
+
+    expect(result).toEqual({ a: 10, b: 11 })
+  })
+
+  it('should run tasks inside an AsyncLocalStorage context', async () => {
+    const storage = new AsyncLocalStorage<string>()
+
+    const result = await all(
+      {
+        async a() {
+          await sleep(5)
+          return storage.getStore()
+        },
+        async b() {
+          await this.$.a
+          return storage.getStore()
+        },
+      },
+      {
+        hooks: {
+          wrapTask: (task, next) => storage.run(`task ${task.name}`, next),
+        },
+      },
+    )
+
+    expect(result).toEqual({ a: 'task a', b: 'task b' })
+  })
+
+  it('should wrap every retry attempt', async () => {
+    const wrapTask = vi.fn((_task: TaskHookInfo, next) => next())
+    const onTaskStart = vi.fn()
+    let calls = 0
+
+    const result = await all(
+      {
+        async a() {
+          if (++calls < 3) throw new Error('flaky')
+          return calls
+        },
+      },
+      {
+        hooks: { wrapTask, onTaskStart },
+        taskOptions: { a: { retry: { attempts: 3, delay: 1 } } },
+      },
+    )
+
+    expect(result).toEqual({ a: 3 })
+    expect(wrapTask).toHaveBeenCalledTimes(3)
+    expect(onTaskStart).toHaveBeenCalledTimes(1)
+  })
+
+  it('should call hooks in flow mode', async () => {
+    const events: string[] = []
+
+    const result = await flow<number>(
+      {
+        async a() {
+          return this.$end(42)
+        },
+        async b() {
+          await sleep(20)
+          return (await this.$.a) + 1
+        },
+      },
+      {
+        hooks: {
+          onTaskStart(task) {
+            events.push(`start ${task.name}`)
+          },
+          onTaskEnd(task) {
+            events.push(`end ${task.name} ${task.result}`)
+          },
+          onTaskError(task) {
+            events.push(`error ${task.name} ${(task.error as Error).name}`)
+          },
+        },
+      },
+    )
+
+    expect(result).toBe(42)
+    expect(events).toEqual([
+      'start a',
+      'start b',
+      'end a 42',
+      'error b FlowAbortedError',
+    ])
+  })
+
+  it('should not call hooks for tasks that never started', async () => {
+    const onTaskStart = vi.fn()
+
+    await all(
+      {
+        async a() {
+          return 1
+        },
+        async b() {
+          return 2
+        },
+      },
+      { targets: ['a'], hooks: { onTaskStart } },
+    )
+
+    expect(onTaskStart.mock.calls.map(([task]) => task.name)).toEqual(['a'])
+  })
+
+  it('should call graph hooks around the execution', async () => {
+    const events: string[] = []
+    let graph: GraphHookInfo | undefined
+
+    await expect(
+      all(
+        {
+          async a() {
+            return 1
+          },
+          async b() {
+            await sleep(5)
+            throw new Error('b failed')
+          },
+        },
+        {
+          hooks: {
+            onGraphStart(g) {
+              graph = g
+              events.push(`graph start ${g.tasks.join(',')}`)
+            },
+            onTaskStart(task) {
+              expect(task.graph).toBe(graph)
+              events.push(`start ${task.name}`)
+            },
+            onGraphEnd(g, { error, duration }) {
+              expect(g).toBe(graph)
+              expect(duration).toBeGreaterThan(0)
+              events.push(`graph end ${(error as Error).message}`)
+            },
+          },
+        },
+      ),
+    ).rejects.toThrow('b failed')
+
+    expect(events).toEqual([
+      'graph start a,b',
+      'start a',
+      'start b',
+      'graph end b failed',
+    ])
+  })
+
+  it('should not affect type inference', async () => {
+    const result = await all(
+      {
+        async a() {
+          return 1
+        },
+        async b() {
+          return String(await this.$.a)
+        },
+      },
+      { hooks: [{ onTaskStart() {} }, { wrapTask: (_, next) => next() }] },
+    )
+
+    expectTypeOf(result).toEqualTypeOf<{ a: number; b: string }>()
+  })
+})
+
+describe('OpenTelemetry', () => {
+  type RecordedSpan = {
+    name: string
+    parent?: RecordedSpan
+    attributes: Record<string, unknown>
+    events: Array<{ name: string; attributes?: Record<string, unknown> }>
+    exceptions: unknown[]
+    status?: { code: number; message?: string }
+    ended: boolean
+  }
+
+  // In-memory stand-in for an OpenTelemetry tracer. Contexts are simply the
+  // span that should be the parent.
+  const createTracer = (activeSpan: () => RecordedSpan | undefined) => {
+    const spans: RecordedSpan[] = []
+    const tracer: OpenTelemetryTracer = {
+      startSpan(name, options, context) {
+        const recorded: RecordedSpan = {
+          name,
+          parent: (context as RecordedSpan | undefined) ?? activeSpan(),
+          attributes: { ...options?.attributes },
+          events: [],
+          exceptions: [],
+          ended: false,
+        }
+        spans.push(recorded)
+        const span: OpenTelemetrySpan & { recorded: RecordedSpan } = {
+          recorded,
+          setAttribute(key, value) {
+            recorded.attributes[key] = value
+          },
+          addEvent(name, attributes) {
+            recorded.events.push({ name, attributes })
+          },
+          recordException(exception) {
+            recorded.exceptions.push(exception)
+          },
+          setStatus(status) {
+            recorded.status = status
+          },
+          end() {
+            recorded.ended = true
+          },
+        }
+        return span
+      },
+    }
+    return { tracer, spans }
+  }
+
+  const contextWithSpan = (span: OpenTelemetrySpan) =>
+    (span as OpenTelemetrySpan & { recorded: RecordedSpan }).recorded
+
+  const find = (spans: RecordedSpan[], name: string) =>
+    spans.find((span) => span.name === name)!
+
+  it('should create a graph span with a child span per task', async () => {
+    const { tracer, spans } = createTracer(() => undefined)
+
+    await all(
+      {
+        async a() {
+          await sleep(10)
+          return 1
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      { hooks: createOpenTelemetryHooks(tracer, { contextWithSpan }) },
+    )
+
+    expect(spans.map((span) => span.name)).toEqual(['better-all', 'a', 'b'])
+    const graph = find(spans, 'better-all')
+    expect(graph.parent).toBeUndefined()
+    expect(graph.attributes).toEqual({ 'better_all.tasks': ['a', 'b'] })
+    expect(graph.status).toEqual({ code: 1 })
+
+    const b = find(spans, 'b')
+    expect(b.parent).toBe(graph)
+    expect(b.attributes).toEqual({
+      'better_all.task': 'b',
+      'better_all.dependencies': ['a'],
+    })
+    expect(b.events).toEqual([
+      {
+        name: 'waiting on dependency',
+        attributes: { 'better_all.dependency': 'a' },
+      },
+    ])
+    expect(spans.every((span) => span.ended)).toBe(true)
+  })
+
+  it('should record failures on the task and graph spans', async () => {
+    const { tracer, spans } = createTracer(() => undefined)
+    const error = new Error('a failed')
+
+    await expect(
+      all(
+        {
+          async a() {
+            throw error
+          },
+        },
+        {
+          hooks: createOpenTelemetryHooks(tracer, { spanName: 'load page' }),
+        },
+      ),
+    ).rejects.toThrow('a failed')
+
+    const graph = find(spans, 'load page')
+    const a = find(spans, 'a')
+    expect(a.exceptions).toEqual([error])
+    expect(a.status).toEqual({ code: 2, message: 'a failed' })
+    expect(graph.exceptions).toEqual([error])
+    expect(graph.status).toEqual({ code: 2, message: 'a failed' })
+    expect(graph.ended).toBe(true)
+  })
+
+  it('should run tasks in the context of their span', async () => {
+    const storage = new AsyncLocalStorage<RecordedSpan>()
+    const { tracer, spans } = createTracer(() => storage.getStore())
+
+    await all(
+      {
+        async a() {
+          await sleep(5)
+          tracer.startSpan('fetch').end()
+          return 1
+        },
+      },
+      {
+        hooks: createOpenTelemetryHooks(tracer, {
+          contextWithSpan,
+          withContext: (context, fn) => storage.run(context, fn),
+        }),
+      },
+    )
+
+    expect(find(spans, 'fetch').parent).toBe(find(spans, 'a'))
+  })
+
+  it('should keep executions apart when hooks are reused', async () => {
+    const { tracer, spans } = createTracer(() => undefined)
+    const hooks = createOpenTelemetryHooks(tracer, { contextWithSpan })
+    const graph = defineGraph({
+      async a() {
+        await sleep(5)
+        return 1
+      },
+    })
+
+    await Promise.all([graph.all({ hooks }), graph.all({ hooks })])
+
+    const graphSpans = spans.filter((span) => span.name === 'better-all')
+    const taskSpans = spans.filter((span) => span.name === 'a')
+    expect(graphSpans).toHaveLength(2)
+    expect(taskSpans.map((span) => span.parent)).toEqual(graphSpans)
+    expect(spans.every((span) => span.ended)).toBe(true)
+  })
+
+  it('should not mark tasks stopped by $end as failed', async () => {
+    const { tracer, spans } = createTracer(() => undefined)
+
+    const result = await flow<string>(
+      {
+        async a() {
+          return this.$end('done')
+        },
+        async b() {
+          await sleep(10)
+          return await this.$.a
+        },
+      },
+      { hooks: createOpenTelemetryHooks(tracer) },
+    )
+
+    expect(result).toBe('done')
+    expect(find(spans, 'a').status).toEqual({ code: 1 })
+    expect(find(spans, 'b').status).toBeUndefined()
+    expect(find(spans, 'b').events).toContainEqual({ name: 'flow ended' })
+    expect(find(spans, 'better-all').status).toEqual({ code: 1 })
+  })
+})
+
+describe('stream', () => {
+  it('should yield tasks in the order they settle', async () => {
+    const names: string[] = []
+    const values: unknown[] = []
+
+    for await (const task of stream({
+      async slow() {
+        await sleep(30)
+        return 'slow'
+      },
+      async fast() {
+        await sleep(5)
+        return 1
+      },
+      async dependent() {
+        return (await this.$.fast) + 1
+      },
+    })) {
+      names.push(task.name)
+      if (task.status === 'fulfilled') values.push(task.value)
+    }
+
+    expect(names).toEqual(['fast', 'dependent', 'slow'])
+    expect(values).toEqual([1, 2, 'slow'])
+  })
+
+  it('should yield failed tasks without stopping the others', async () => {
+    const results = []
+    for await (const task of stream({
+      async a() {
+        throw new Error('a failed')
+      },
+      async b() {
+        return (await this.$.a) + 1
+      },
+      async c() {
+        await sleep(10)
+        return 'c'
+      },
+    })) {
+      results.push(task)
+    }
+
+    expect(results).toEqual([
+      { name: 'a', status: 'rejected', reason: new Error('a failed') },
+      { name: 'b', status: 'rejected', reason: new Error('a failed') },
+      { name: 'c', status: 'fulfilled', value: 'c' },
+    ])
+  })
+
+  it('should abort remaining tasks when the loop is exited early', async () => {
+    let slowSignal: AbortSignal | undefined
+
+    for await (const task of stream({
+      async fast() {
+        return 1
+      },
+      async slow() {
+        slowSignal = this.$signal
+        await sleep(50)
+        return 2
+      },
+    })) {
+      expect(task.name).toBe('fast')
+      break
+    }
+
+    expect(slowSignal!.aborted).toBe(true)
+  })
+
+  it('should abort tasks with the external signal', async () => {
+    const controller = new AbortController()
+    const results = []
+
+    for await (const task of stream(
+      {
+        async a() {
+          return 1
+        },
+        async b() {
+          await new Promise((_, reject) => {
+            this.$signal.addEventListener('abort', () =>
+              reject(this.$signal.reason),
+            )
+          })
+        },
+      },
+      { signal: controller.signal },
+    )) {
+      results.push(task)
+      if (task.name === 'a') controller.abort(new Error('cancelled'))
+    }
+
+    expect(results).toEqual([
+      { name: 'a', status: 'fulfilled', value: 1 },
+      { name: 'b', status: 'rejected', reason: new Error('cancelled') },
+    ])
+  })
+
+  it('should report skipped tasks', async () => {
+    const results = []
+    for await (const task of stream(
+      {
+        async a() {
+          throw new Error('a failed')
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      { reportSkipped: true },
+    )) {
+      results.push(task)
+    }
+
+    expect(results[1]).toEqual({
+      name: 'b',
+      status: 'skipped',
+      reason: new Error('a failed'),
+      cause: 'a',
+    })
+  })
+
+  it('should stream a graph from defineGraph', async () => {
+    const graph = defineGraph({
+      async a() {
+        return 1
+      },
+      async b() {
+        return (await this.$.a) + 1
+      },
+    })
+
+    const results = []
+    for await (const task of graph.stream()) {
+      results.push(task)
+    }
+
+    expect(results).toEqual([
+      { name: 'a', status: 'fulfilled', value: 1 },
+      { name: 'b', status: 'fulfilled', value: 2 },
+    ])
+  })
+
+  it('should throw for invalid options', async () => {
+    const iterate = async () => {
+      for await (const _ of stream({ async a() {} }, { concurrency: 0 })) {
+        // Never reached
+      }
+    }
+
+    await expect(iterate()).rejects.toThrow('Invalid concurrency 0')
+  })
+
+  it('should infer the type of each task', async () => {
+    for await (const task of stream({
+      async a() {
+        return 1
+      },
+      async b() {
+        return 'b'
+      },
+    })) {
+      if (task.status === 'fulfilled') {
+        if (task.name === 'a') expectTypeOf(task.value).toEqualTypeOf<number>()
+        if (task.name === 'b') expectTypeOf(task.value).toEqualTypeOf<string>()
+      } else {
+        // @ts-expect-error - skipped results need reportSkipped
+        expect(task.status === 'skipped').toBe(false)
+      }
+    }
+  })
+})
+
+describe('Progress', () => {
+  // Compact form of a progress report, in the order of TaskProgress
+  const format = (p: TaskProgress) =>
+    `${p.pending} pending, ${p.running} running, ${p.waiting} waiting, ${p.fulfilled} fulfilled, ${p.rejected} rejected`
+
+  it('should report every state change', async () => {
+    const reports: string[] = []
+
+    await all(
+      {
+        async a() {
+          await sleep(10)
+          return 1
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      {
+        onProgress(progress) {
+          expect(progress.total).toBe(2)
+          reports.push(format(progress))
+        },
+      },
+    )
+
+    expect(reports).toEqual([
+      '1 pending, 1 running, 0 waiting, 0 fulfilled, 0 rejected',
+      '0 pending, 2 running, 0 waiting, 0 fulfilled, 0 rejected',
+      '0 pending, 1 running, 1 waiting, 0 fulfilled, 0 rejected',
+      '0 pending, 0 running, 1 waiting, 1 fulfilled, 0 rejected',
+      '0 pending, 1 running, 0 waiting, 1 fulfilled, 0 rejected',
+      '0 pending, 0 running, 0 waiting, 2 fulfilled, 0 rejected',
+    ])
+  })
+
+  it('should count rejected tasks', async () => {
+    let last: TaskProgress | undefined
+
+    await allSettled(
+      {
+        async a() {
+          throw new Error('a failed')
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+        async c() {
+          return 'c'
+        },
+      },
+      {
+        onProgress(progress) {
+          last = progress
+        },
+      },
+    )
+
+    expect(last).toEqual({
+      total: 3,
+      pending: 0,
+      running: 0,
+      waiting: 0,
+      fulfilled: 1,
+      rejected: 2,
+    })
+  })
+
+  it('should count tasks queued for a concurrency slot as pending', async () => {
+    const reports: string[] = []
+
+    await all(
+      {
+        async a() {
+          await sleep(5)
+        },
+        async b() {
+          await sleep(5)
+        },
+        async c() {
+          await sleep(5)
+        },
+      },
+      {
+        concurrency: 1,
+        onProgress(progress) {
+          reports.push(format(progress))
+        },
+      },
+    )
+
+    expect(reports[0]).toBe(
+      '2 pending, 1 running, 0 waiting, 0 fulfilled, 0 rejected',
+    )
+    expect(reports.every((report) => report.includes(' 0 waiting'))).toBe(
+      true,
+    )
+    expect(reports.at(-1)).toBe(
+      '0 pending, 0 running, 0 waiting, 3 fulfilled, 0 rejected',
+    )
+  })
+
+  it('should count tasks stopped by $end in flow mode', async () => {
+    let last: TaskProgress | undefined
+
+    await flow<number>(
+      {
+        async a() {
+          return this.$end(1)
+        },
+        async b() {
+          await sleep(10)
+          return (await this.$.a) + 1
+        },
+      },
+      {
+        onProgress(progress) {
+          last = progress
+        },
+      },
+    )
+
+    // `b` fails with FlowAbortedError
+    expect(last).toMatchObject({
+      pending: 0,
+      running: 0,
+      fulfilled: 1,
+      rejected: 1,
+    })
+  })
+
+  it('should leave tasks that never run out of the progress', async () => {
+    let last: TaskProgress | undefined
+
+    await all(
+      {
+        async a() {
+          return (await this.$.c) + 1
+        },
+        async b() {
+          return 2
+        },
+        async c() {
+          return 3
+        },
+      },
+      {
+        targets: ['a'],
+        onProgress(progress) {
+          last = progress
+        },
+      },
+    )
+
+    expect(last).toEqual({
+      total: 2,
+      pending: 0,
+      running: 0,
+      waiting: 0,
+      fulfilled: 2,
+      rejected: 0,
+    })
+  })
+})
+
+describe('Optional dependencies', () => {
+  it('should resolve $settled to a settled result', async () => {
+    const result = await allSettled({
+      async a() {
+        return 1
+      },
+      async b() {
+        throw new Error('b failed')
+      },
+      async c() {
+        return [await this.$settled.a, await this.$settled.b]
+      },
+    })
+
+    expect(result.c).toEqual({
+      status: 'fulfilled',
+      value: [
+        { status: 'fulfilled', value: 1 },
+        { status: 'rejected', reason: new Error('b failed') },
+      ],
+    })
+  })
+
+  it('should resolve $try to undefined if the dependency failed', async () => {
+    const result = await allSettled({
+      async a() {
+        return 1
+      },
+      async b() {
+        throw new Error('b failed')
+      },
+      async c() {
+        return [await this.$try.a, await this.$try.b]
+      },
+    })
+
+    expect(result.c).toEqual({ status: 'fulfilled', value: [1, undefined] })
+  })
+
+  it('should not fail all() for a task that is declared optional', async () => {
+    let signal: AbortSignal | undefined
+
+    const result = await all(
+      {
+        async recommendations(): Promise<string[]> {
+          await sleep(5)
+          throw new Error('recommendations failed')
+        },
+        async user() {
+          signal = this.$signal
+          await sleep(20)
+          return 'Alice'
+        },
+        async page() {
+          const user = await this.$.user
+          const recommendations = (await this.$try.recommendations) ?? []
+          return { user, recommendations }
+        },
+      },
+      { optional: ['recommendations'] },
+    )
+
+    expect(result.page).toEqual({ user: 'Alice', recommendations: [] })
+    expect('recommendations' in result).toBe(false)
+    expect(signal!.aborted).toBe(false)
+    expectTypeOf(result).toEqualTypeOf<
+      { user: string; page: { user: string; recommendations: string[] } } & {
+        recommendations?: string[]
+      }
+    >()
+  })
+
+  it('should fail all() if the task is not declared optional', async () => {
+    await expect(
+      all({
+        async a(): Promise<number> {
+          await sleep(10)
+          throw new Error('a failed')
+        },
+        async b() {
+          return await this.$try.a
+        },
+      }),
+    ).rejects.toThrow('a failed')
+  })
+
+  it('should fail dependents that require an optional task', async () => {
+    await expect(
+      all(
+        {
+          async a(): Promise<number> {
+            await sleep(5)
+            throw new Error('a failed')
+          },
+          async b() {
+            return await this.$try.a
+          },
+          async c() {
+            await sleep(20)
+            return await this.$.a
+          },
+        },
+        { optional: ['a'] },
+      ),
+    ).rejects.toThrow('a failed')
+  })
+
+  it('should reject unknown optional tasks', async () => {
+    await expect(
+      all(
+        {
+          async a() {
+            return 1
+          },
+        },
+        // @ts-expect-error - unknown task
+        { optional: ['b'] },
+      ),
+    ).rejects.toThrow('Unknown task "b"')
+  })
+
+  it('should leave tolerated failures out of aggregated errors', async () => {
+    const result = await all(
+      {
+        async a(): Promise<number> {
+          await sleep(5)
+          throw new Error('a failed')
+        },
+        async b() {
+          return (await this.$try.a) ?? 0
+        },
+      },
+      { aggregateErrors: true, optional: ['a'] },
+    )
+    expect(result).toEqual({ b: 0 })
+
+    const error = await all(
+      {
+        async a(): Promise<number> {
+          await sleep(5)
+          throw new Error('a failed')
+        },
+        async b() {
+          return (await this.$try.a) ?? 0
+        },
+        async c() {
+          await sleep(10)
+          throw new Error('c failed')
+        },
+      },
+      { aggregateErrors: true, optional: ['a'] },
+    ).catch((err) => err)
+    expect(error).toBeInstanceOf(TaskGraphError)
+    expect(error.failedTasks).toEqual(['c'])
+  })
+
+  it('should stop the task when the flow has ended', async () => {
+    let reached = false
+
+    const result = await flow<string>({
+      async a() {
+        await sleep(5)
+        return this.$end('done')
+      },
+      async b() {
+        await this.$try.a
+        reached = true
+      },
+    })
+
+    expect(result).toBe('done')
+    expect(reached).toBe(false)
+  })
+
+  it('should infer the types of optional dependencies', async () => {
+    await all({
+      async a() {
+        return 1
+      },
+      async b() {
+        const settled = await this.$settled.a
+        expectTypeOf(settled).toEqualTypeOf<
+          | { status: 'fulfilled'; value: number }
+          | { status: 'rejected'; reason: any }
+        >()
+        expectTypeOf(await this.$try.a).toEqualTypeOf<number | undefined>()
+        // @ts-expect-error - unknown task
+        this.$try.unknown
+      },
+    })
+  })
+})
+
+describe('Fallbacks', () => {
+  it('should use a static fallback when the task fails', async () => {
+    let signal: AbortSignal | undefined
+
+    const result = await all(
+      {
+        async settings(): Promise<{ theme: string }> {
+          throw new Error('settings failed')
+        },
+        async page() {
+          signal = this.$signal
+          const { theme } = await this.$.settings
+          await sleep(10)
+          return `page (${theme})`
+        },
+      },
+      { taskOptions: { settings: { fallback: { theme: 'light' } } } },
+    )
+
+    expect(result).toEqual({
+      settings: { theme: 'light' },
+      page: 'page (light)',
+    })
+    expect(signal!.aborted).toBe(false)
+  })
+
+  it('should compute the fallback from the error and other tasks', async () => {
+    const fallback = vi.fn(
+      async (error: unknown, $: { cached: Promise<number[]> }) => {
+        expect(error).toEqual(new Error('fetch failed'))
+        return await $.cached
+      },
+    )
+
+    const result = await all(
+      {
+        async cached() {
+          return [1, 2]
+        },
+        async fresh(): Promise<number[]> {
+          throw new Error('fetch failed')
+        },
+      },
+      { taskOptions: { fresh: { fallback } } },
+    )
+
+    expect(result.fresh).toEqual([1, 2])
+    expect(fallback).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fail with the error of a failing fallback', async () => {
+    await expect(
+      all(
+        {
+          async a(): Promise<number> {
+            throw new Error('a failed')
+          },
+        },
+        {
+          taskOptions: {
+            a: {
+              fallback() {
+                throw new Error('fallback failed')
+              },
+            },
+          },
+        },
+      ),
+    ).rejects.toThrow('fallback failed')
+  })
+
+  it('should allow undefined as the fallback', async () => {
+    const result = await all(
+      {
+        async a(): Promise<number | undefined> {
+          throw new Error('a failed')
+        },
+      },
+      { taskOptions: { a: { fallback: undefined } } },
+    )
+
+    expect(result).toEqual({ a: undefined })
+  })
+
+  it('should report the fallback as fulfilled in allSettled()', async () => {
+    const result = await allSettled(
+      {
+        async a(): Promise<number> {
+          throw new Error('a failed')
+        },
+        async b() {
+          return (await this.$.a) + 1
+        },
+      },
+      { taskOptions: { a: { fallback: 0 } } },
+    )
+
+    expect(result).toEqual({
+      a: { status: 'fulfilled', value: 0 },
+      b: { status: 'fulfilled', value: 1 },
+    })
+  })
+
+  it('should only fall back after all retries failed', async () => {
+    let calls = 0
+
+    const result = await all(
+      {
+        async a(): Promise<string> {
+          calls++
+          throw new Error('a failed')
+        },
+      },
+      {
+        taskOptions: {
+          a: { retry: { attempts: 2, delay: 1 }, fallback: 'stale' },
+        },
+      },
+    )
+
+    expect(result).toEqual({ a: 'stale' })
+    expect(calls).toBe(2)
+  })
+
+  it('should fall back when the task times out', async () => {
+    let timings: TaskTiming[] = []
+
+    const result = await all(
+      {
+        async a() {
+          await sleep(50)
+          return 'fresh'
+        },
+      },
+      {
+        taskOptions: { a: { timeout: 10, fallback: 'stale' } },
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
+
+    expect(result).toEqual({ a: 'stale' })
+    expect(timings[0].status).toBe('timedOut')
+  })
+
+  it('should still record the failure in traces and hooks', async () => {
+    let timings: TaskTiming[] = []
+    const onTaskError = vi.fn()
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    await all(
+      {
+        async a(): Promise<number> {
+          throw new Error('a failed')
+        },
+      },
+      {
+        debug: true,
+        taskOptions: { a: { fallback: 0 } },
+        hooks: { onTaskError },
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
+
+    expect(timings[0]).toMatchObject({
+      name: 'a',
+      status: 'rejected',
+      error: new Error('a failed'),
+    })
+    expect(onTaskError.mock.calls[0][0].error).toEqual(new Error('a failed'))
+    expect(consoleSpy.mock.calls[0][0]).toContain('▓')
+
+    consoleSpy.mockRestore()
+  })
+
+  it('should type the fallback as the task result', async () => {
+    await all(
+      {
+        async a() {
+          return 1
         },
-        async task2() {
-          executionOrder.push('task2-start')
-          await sleep(20)
-          executionOrder.push('task2-before-await')
-          try {
-            await this.$.task1
-            executionOrder.push('task2-after-await') // Never reached
-          } catch (err: any) {
-            executionOrder.push(`task2-caught-${err.name}`)
-          }
-          return 2
+      },
+      {
+        taskOptions: {
+          a: {
+            // @ts-expect-error - must be a number
+            fallback: 'one',
+          },
+        },
+      },
+    )
+  })
+})
+
+describe('Caching', () => {
+  const createGraph = (store: CacheStore, ttl?: number) => {
+    let calls = 0
+    const graph = defineGraph<{ userId: number }>()({
+      async user() {
+        calls++
+        await sleep(10)
+        return { id: this.$input.userId, call: calls }
+      },
+      async greeting() {
+        return `Hello ${(await this.$.user).id}`
+      },
+    })
+    const run = (userId: number) =>
+      graph.all({
+        input: { userId },
+        taskOptions: {
+          user: {
+            cache: { key: (input) => String(input.userId), ttl, store },
+          },
         },
       })
+    return { run, calls: () => calls }
+  }
 
-      expect(f).toBe(100)
-      expect(executionOrder).toContain('task1')
-      expect(executionOrder).toContain('task2-start')
-      // task2 should catch FlowAbortedError but it's caught silently by flow
+  it('should reuse cached results across executions', async () => {
+    const { run, calls } = createGraph(createLRUCache())
+
+    const first = await run(1)
+    const second = await run(1)
+
+    expect(second).toEqual(first)
+    expect(second.greeting).toBe('Hello 1')
+    expect(calls()).toBe(1)
+  })
+
+  it('should cache results by key', async () => {
+    const { run, calls } = createGraph(createLRUCache())
+
+    await run(1)
+    const other = await run(2)
+
+    expect(other.user).toEqual({ id: 2, call: 2 })
+    expect(calls()).toBe(2)
+  })
+
+  it('should expire results after the ttl', async () => {
+    const { run, calls } = createGraph(createLRUCache(), 20)
+
+    await run(1)
+    await run(1)
+    expect(calls()).toBe(1)
+
+    await sleep(30)
+    await run(1)
+    expect(calls()).toBe(2)
+  })
+
+  it('should share a running execution with the same key', async () => {
+    const { run, calls } = createGraph(createLRUCache())
+
+    const [first, second] = await Promise.all([run(1), run(1)])
+
+    expect(first.user).toBe(second.user)
+    expect(calls()).toBe(1)
+  })
+
+  it('should run the task again when the execution it joined is cancelled', async () => {
+    const store = createLRUCache()
+    let calls = 0
+    const run = (signal?: AbortSignal) =>
+      all(
+        {
+          async a() {
+            const call = ++calls
+            await new Promise((resolve, reject) => {
+              const timer = setTimeout(resolve, 20)
+              this.$signal.addEventListener('abort', () => {
+                clearTimeout(timer)
+                reject(this.$signal.reason)
+              })
+            })
+            return call
+          },
+        },
+        { signal, taskOptions: { a: { cache: { key: () => 'a', store } } } },
+      )
+
+    const controller = new AbortController()
+    const first = run(controller.signal)
+    const second = run()
+    setTimeout(() => controller.abort(new Error('first cancelled')), 5)
+
+    await expect(first).rejects.toThrow('first cancelled')
+    expect(await second).toEqual({ a: 2 })
+    expect(calls).toBe(2)
+  })
+
+  it('should not cache failures', async () => {
+    const store = createLRUCache()
+    let calls = 0
+    const run = () =>
+      allSettled(
+        {
+          async a() {
+            if (++calls === 1) throw new Error('a failed')
+            return calls
+          },
+        },
+        { taskOptions: { a: { cache: { key: () => 'a', store } } } },
+      )
+
+    expect((await run()).a.status).toBe('rejected')
+    expect(await run()).toEqual({ a: { status: 'fulfilled', value: 2 } })
+    expect(await run()).toEqual({ a: { status: 'fulfilled', value: 2 } })
+  })
+
+  it('should support async stores', async () => {
+    const entries = new Map<string, unknown>()
+    const store: CacheStore = {
+      async get(key) {
+        await sleep(1)
+        return entries.has(key) ? { value: entries.get(key) } : undefined
+      },
+      async set(key, value) {
+        await sleep(1)
+        entries.set(key, value)
+      },
+    }
+    const { run, calls } = createGraph(store)
+
+    await Promise.all([run(1), run(1)])
+    await run(1)
+
+    expect(calls()).toBe(1)
+    expect([...entries.keys()]).toEqual(['user:1'])
+  })
+
+  it('should use a shared in-memory store by default', async () => {
+    let calls = 0
+    const tasks = {
+      async a() {
+        return ++calls
+      },
+    }
+    const run = () =>
+      all(tasks, { taskOptions: { a: { cache: { key: () => 'a' } } } })
+
+    await run()
+    expect(await run()).toEqual({ a: 1 })
+  })
+
+  it('should not share results of different tasks in the default store', async () => {
+    const cache = { key: () => 'config' }
+
+    const first = await all(
+      {
+        async config() {
+          return 'first'
+        },
+      },
+      { taskOptions: { config: { cache } } },
+    )
+    const second = await all(
+      {
+        async config() {
+          return 'second'
+        },
+      },
+      { taskOptions: { config: { cache } } },
+    )
+
+    expect(first).toEqual({ config: 'first' })
+    expect(second).toEqual({ config: 'second' })
+  })
+
+  it('should mark cache hits in debug output and traces', async () => {
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const store = createLRUCache()
+    let timings: TaskTiming[] = []
+    const options = {
+      debug: true,
+      taskOptions: { a: { cache: { key: () => 'a', store } } },
+      onTrace(t: TaskTiming[]) {
+        timings = t
+      },
+    }
+
+    await all({ async a() {} }, options)
+    expect(timings[0].cached).toBeUndefined()
+    await all({ async a() {} }, options)
+    expect(timings[0].cached).toBe(true)
+
+    expect(consoleSpy.mock.calls[0][0]).not.toContain('(cached)')
+    expect(consoleSpy.mock.calls[1][0]).toMatch(/a \(cached\) │/)
+
+    consoleSpy.mockRestore()
+  })
+
+  describe('createLRUCache', () => {
+    it('should evict the least recently used entry', () => {
+      const cache = createLRUCache(2)
+
+      cache.set('a', 1)
+      cache.set('b', 2)
+      cache.get('a')
+      cache.set('c', 3)
+
+      expect(cache.get('a')).toEqual({ value: 1 })
+      expect(cache.get('b')).toBeUndefined()
+      expect(cache.get('c')).toEqual({ value: 3 })
     })
 
-    it('should allow tasks to complete normally if they do not depend on ended tasks', async () => {
-      const f = await flow<string>({
-        async task1() {
-          await sleep(50)
-          this.$end('first')
+    it('should cache undefined values', () => {
+      const cache = createLRUCache()
+
+      cache.set('a', undefined)
+
+      expect(cache.get('a')).toEqual({ value: undefined })
+    })
+  })
+})
+
+describe('Nested graphs', () => {
+  it('should run a nested graph that can access outer tasks', async () => {
+    const result = await all(
+      {
+        async user() {
+          await sleep(5)
+          return { name: 'Alice' }
         },
-        async task2() {
+        async page() {
+          return this.$all({
+            async header() {
+              return `Hello ${(await this.$.user).name}`
+            },
+            async body() {
+              return `${await this.$.header}! (${this.$input.locale})`
+            },
+          })
+        },
+      },
+      { input: { locale: 'en' } },
+    )
+
+    expect(result.page).toEqual({
+      header: 'Hello Alice',
+      body: 'Hello Alice! (en)',
+    })
+  })
+
+  it('should share the signal of the task that runs it', async () => {
+    let innerSignal: AbortSignal | undefined
+
+    await expect(
+      all({
+        async a() {
           await sleep(10)
-          this.$end('second')
+          throw new Error('a failed')
         },
-      })
+        async b() {
+          return this.$all({
+            async inner() {
+              innerSignal = this.$signal
+              await sleep(50)
+            },
+          })
+        },
+      }),
+    ).rejects.toThrow('a failed')
 
-      // task2 finishes first, so its $end wins
-      expect(f).toBe('second')
+    expect(innerSignal!.aborted).toBe(true)
+  })
+
+  it('should let the task handle failures of the nested graph', async () => {
+    let outerSignal: AbortSignal | undefined
+
+    const result = await all({
+      async page() {
+        outerSignal = this.$signal
+        return this.$all(
+          {
+            async widget(): Promise<string> {
+              throw new Error('widget failed')
+            },
+          },
+          { taskOptions: { widget: { retry: { attempts: 2, delay: 1 } } } },
+        ).catch((err: Error) => ({ widget: `fallback (${err.message})` }))
+      },
     })
+
+    expect(result.page).toEqual({ widget: 'fallback (widget failed)' })
+    expect(outerSignal!.aborted).toBe(false)
   })
 
-  describe('Error handling', () => {
-    it('should propagate real errors (not FlowEndError)', async () => {
-      await expect(
-        flow<number>({
-          async task1() {
-            throw new Error('Real error')
+  it('should detect cycles through the outer graph', async () => {
+    await expect(
+      all({
+        async page(): Promise<unknown> {
+          return this.$all({
+            async inner() {
+              return await this.$.page
+            },
+          })
+        },
+      }),
+    ).rejects.toThrow(DependencyCycleError)
+  })
+
+  it('should report nested tasks as children in traces', async () => {
+    let timings: TaskTiming[] = []
+
+    await all(
+      {
+        async config() {
+          return 1
+        },
+        async page() {
+          return this.$all({
+            async header() {
+              return await this.$.config
+            },
+            async body() {
+              return this.$all({
+                async text() {
+                  return (await this.$.header) + 1
+                },
+              })
+            },
+          })
+        },
+      },
+      {
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
+
+    const summary = Object.fromEntries(
+      timings.map((t) => [t.name, { parent: t.parent, deps: t.dependencies }]),
+    )
+    expect(summary).toEqual({
+      config: { parent: undefined, deps: [] },
+      page: { parent: undefined, deps: ['config'] },
+      'page/header': { parent: 'page', deps: ['config'] },
+      'page/body': { parent: 'page', deps: ['page/header'] },
+      'page/body/text': { parent: 'page/body', deps: ['page/header'] },
+    })
+  })
+
+  it('should indent nested tasks in the waterfall', async () => {
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    await all(
+      {
+        async page() {
+          return this.$all({
+            async header() {
+              await sleep(5)
+              return 'header'
+            },
+            async body() {
+              return `${await this.$.header} body`
+            },
+          })
+        },
+        async footer() {
+          await sleep(20)
+          return 'footer'
+        },
+      },
+      { debug: true },
+    )
+
+    expect(consoleSpy).toHaveBeenCalledTimes(1)
+    const output: string = consoleSpy.mock.calls[0][0]
+    const rows = output
+      .split('\n')
+      .filter((line) => /^ *(page|header|body|footer) /.test(line))
+      .map((line) => line.split('│').slice(0, 2).join('│').trimEnd())
+    expect(rows).toEqual([
+      'page     │ -',
+      '  header │ -',
+      '  body   │ header',
+      'footer   │ -',
+    ])
+    expect(output).not.toContain('page/')
+
+    consoleSpy.mockRestore()
+  })
+
+  it('should type the tasks of the nested graph', async () => {
+    await all({
+      async user() {
+        return { name: 'Alice' }
+      },
+      async page() {
+        const result = await this.$all({
+          async header() {
+            expectTypeOf(await this.$.user).toEqualTypeOf<{ name: string }>()
+            return 1
           },
-          async task2() {
-            await sleep(10)
-            this.$end(42)
+          async body() {
+            expectTypeOf(await this.$.header).toEqualTypeOf<number>()
+            await expect(
+              // @ts-expect-error - unknown task
+              this.$.unknown,
+            ).rejects.toThrow('Unknown task "unknown"')
+            return 'body'
           },
         })
-      ).rejects.toThrow('Real error')
+        expectTypeOf(result).toEqualTypeOf<{ header: number; body: string }>()
+        return result
+      },
+    })
+  })
+})
+
+describe('Map tasks', () => {
+  it('should map every item of an array task in order', async () => {
+    const result = await all({
+      async ids() {
+        return [3, 1, 2]
+      },
+      async users() {
+        return this.$map('ids', async (id, index) => {
+          await sleep(id * 5)
+          return `user ${id} at ${index}`
+        })
+      },
     })
 
-    it('should handle errors in tasks with dependencies', async () => {
-      await expect(
-        flow<number>({
-          async task1() {
-            throw new Error('Task 1 failed')
-          },
-          async task2() {
-            const r = await this.$.task1 // Will throw the error from task1
-            this.$end(r + 1)
+    expect(result.users).toEqual([
+      'user 3 at 0',
+      'user 1 at 1',
+      'user 2 at 2',
+    ])
+  })
+
+  it('should resolve with an empty array for an empty dependency', async () => {
+    const result = await all({
+      async ids(): Promise<number[]> {
+        return []
+      },
+      async users() {
+        return this.$map('ids', async (id) => id)
+      },
+    })
+
+    expect(result.users).toEqual([])
+  })
+
+  it('should limit the number of items processed at the same time', async () => {
+    let running = 0
+    let maxRunning = 0
+
+    const result = await all({
+      async ids() {
+        return [1, 2, 3, 4, 5]
+      },
+      async users() {
+        return this.$map(
+          'ids',
+          async (id) => {
+            running++
+            maxRunning = Math.max(maxRunning, running)
+            await sleep(10)
+            running--
+            return id * 2
           },
-        })
-      ).rejects.toThrow('Task 1 failed')
+          { concurrency: 2 },
+        )
+      },
     })
+
+    expect(result.users).toEqual([2, 4, 6, 8, 10])
+    expect(maxRunning).toBe(2)
   })
 
-  describe('Complex scenarios', () => {
-    it('should handle multiple tasks with complex dependencies', async () => {
-      const executionOrder: string[] = []
+  it('should reject on the first failure and abort the other items', async () => {
+    const signals: AbortSignal[] = []
 
-      const f = await flow<{ cached: boolean; data: string }>({
-        async fetchUser() {
-          executionOrder.push('fetchUser')
-          await sleep(20)
-          return { id: 1, name: 'Alice' }
+    await expect(
+      all({
+        async ids() {
+          return [1, 2, 3]
         },
-        async fetchPosts() {
-          executionOrder.push('fetchPosts-start')
-          const user = await this.$.fetchUser
-          executionOrder.push(`fetchPosts-got-user-${user.id}`)
-          await sleep(10)
-          return [{ id: 1, title: 'Post 1' }]
+        async users() {
+          return this.$map('ids', async (id, _, signal) => {
+            signals.push(signal)
+            if (id === 2) throw new Error('user 2 failed')
+            await sleep(50)
+            return id
+          })
         },
-        async checkCache() {
-          executionOrder.push('checkCache')
-          await sleep(5)
-          // Simulate cache hit
-          this.$end({ cached: true, data: 'cached-result' })
+      }),
+    ).rejects.toThrow('user 2 failed')
+
+    expect(signals).toHaveLength(3)
+    expect(signals.every((signal) => signal.aborted)).toBe(true)
+  })
+
+  it('should settle every item in settled mode', async () => {
+    const result = await all({
+      async ids() {
+        return [1, 2, 3]
+      },
+      async users() {
+        return this.$map(
+          'ids',
+          async (id) => {
+            if (id === 2) throw new Error('user 2 failed')
+            await sleep(5)
+            return id
+          },
+          { settled: true },
+        )
+      },
+    })
+
+    expect(result.users).toEqual([
+      { status: 'fulfilled', value: 1 },
+      { status: 'rejected', reason: new Error('user 2 failed') },
+      { status: 'fulfilled', value: 3 },
+    ])
+  })
+
+  it('should reject if the dependency is not an array', async () => {
+    await expect(
+      all({
+        async ids() {
+          return 'not an array'
         },
-      })
+        async users() {
+          return this.$map('ids', async (id) => id)
+        },
+      }),
+    ).rejects.toThrow('Task "ids" did not return an array')
+  })
 
-      expect(f).toEqual({ cached: true, data: 'cached-result' })
-      expect(executionOrder).toContain('checkCache')
-      // Other tasks may or may not complete depending on timing
+  it('should report every item as a child in traces', async () => {
+    let timings: TaskTiming[] = []
+
+    await all(
+      {
+        async ids() {
+          return [1, 2]
+        },
+        async users() {
+          return this.$map('ids', async (id) => id)
+        },
+      },
+      {
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
+
+    const summary = Object.fromEntries(
+      timings.map((t) => [t.name, { parent: t.parent, deps: t.dependencies }]),
+    )
+    expect(summary).toEqual({
+      ids: { parent: undefined, deps: [] },
+      users: { parent: undefined, deps: ['ids'] },
+      'users/[0]': { parent: 'users', deps: [] },
+      'users/[1]': { parent: 'users', deps: [] },
     })
+  })
 
-    it('should work with $signal for cleanup', async () => {
-      const abortedTasks: string[] = []
+  it('should show every item as a row in debug mode', async () => {
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
 
-      const f = await flow<string>({
-        async task1() {
-          await sleep(10)
-          this.$end('done')
+    await all(
+      {
+        async ids() {
+          return [1, 2]
         },
-        async task2() {
-          try {
-            await sleep(100)
-          } catch (err) {
-            if (this.$signal.aborted) {
-              abortedTasks.push('task2')
-            }
-          }
-          return 'task2-done'
+        async users() {
+          return this.$map('ids', async (id) => {
+            await sleep(id * 5)
+            return id
+          })
         },
-      })
+      },
+      { debug: true },
+    )
+
+    expect(consoleSpy).toHaveBeenCalledTimes(1)
+    const output: string = consoleSpy.mock.calls[0][0]
+    const rows = output
+      .split('\n')
+      .filter((line) => /^ *(ids|users|\[\d\]) /.test(line))
+      .map((line) => line.split('│').slice(0, 2).join('│').trimEnd())
+    expect(rows).toEqual([
+      'ids   │ -',
+      'users │ ids',
+      '  [0] │ -',
+      '  [1] │ -',
+    ])
+
+    consoleSpy.mockRestore()
+  })
 
-      expect(f).toBe('done')
-      // Note: $signal is not automatically aborted by $end in current implementation
-      // This test verifies that $signal is available
+  it('should type the items and results', async () => {
+    await all({
+      async ids() {
+        return [1, 2]
+      },
+      async users() {
+        const users = await this.$map('ids', async (id) => {
+          expectTypeOf(id).toEqualTypeOf<number>()
+          return { id }
+        })
+        expectTypeOf(users).toEqualTypeOf<{ id: number }[]>()
+
+        const settled = await this.$map('ids', (id) => String(id), {
+          settled: true,
+        })
+        expectTypeOf(settled).toEqualTypeOf<
+          Array<
+            | { status: 'fulfilled'; value: string }
+            | { status: 'rejected'; reason: any }
+          >
+        >()
+        return users
+      },
+    })
+  })
+})
+
+describe('Spawned tasks', () => {
+  it('should include spawned tasks in the result', async () => {
+    const result = await all({
+      async ids() {
+        return [1, 2]
+      },
+      async spawner() {
+        for (const id of await this.$.ids) {
+          this.$spawn(`user${id}`, async function () {
+            await sleep(5)
+            return { id, count: (await this.$.ids).length }
+          })
+        }
+        return 'spawned'
+      },
+    })
+
+    expect(result).toEqual({
+      ids: [1, 2],
+      spawner: 'spawned',
+      user1: { id: 1, count: 2 },
+      user2: { id: 2, count: 2 },
+    })
+  })
+
+  it('should let other tasks await spawned tasks', async () => {
+    const result = await all({
+      async spawner() {
+        this.$spawn('extra', async () => {
+          await sleep(10)
+          return 42
+        })
+        const $ = this.$ as Record<string, Promise<number>>
+        return (await $.extra) + 1
+      },
+      async consumer() {
+        await sleep(1)
+        const $ = this.$ as Record<string, Promise<number>>
+        return (await $.extra) * 2
+      },
     })
 
-    it('should handle synchronous $end() call', async () => {
-      const f = await flow<number>({
-        task1() {
-          this.$end(123)
+    expect(result).toEqual({ spawner: 43, consumer: 84, extra: 42 })
+  })
+
+  it('should reject spawning a task that already exists', async () => {
+    await expect(
+      all({
+        async a() {
           return 1
         },
-        async task2() {
-          await sleep(10)
-          return 2
+        async b() {
+          this.$spawn('a', async () => 2)
         },
-      })
+      }),
+    ).rejects.toThrow('Task "a" already exists')
+  })
 
-      expect(f).toBe(123)
+  it('should reject spawning a task after the graph has settled', async () => {
+    let spawn: ((name: string, fn: () => Promise<number>) => void) | undefined
+
+    const result = await all({
+      async a() {
+        spawn = this.$spawn
+        return 1
+      },
     })
 
-    it('should handle early exit with complex return types', async () => {
-      const f = await flow<
-        { status: 'success'; data: number[] } | { status: 'error'; message: string }
-      >({
-        async task1() {
-          await sleep(10)
-          this.$end({ status: 'success', data: [1, 2, 3] })
+    expect(result).toEqual({ a: 1 })
+    expect(() => spawn!('late', async () => 2)).toThrow(
+      'Cannot spawn task "late" after the graph has settled',
+    )
+  })
+
+  it('should abort other tasks when a spawned task fails', async () => {
+    let signal: AbortSignal | undefined
+
+    await expect(
+      all({
+        async spawner() {
+          this.$spawn('failing', async () => {
+            await sleep(5)
+            throw new Error('spawned task failed')
+          })
         },
-        async task2() {
-          await sleep(20)
-          this.$end({ status: 'error', message: 'Failed' })
+        async other() {
+          signal = this.$signal
+          await sleep(50)
         },
-      })
+      }),
+    ).rejects.toThrow('spawned task failed')
 
-      expect(f).toEqual({ status: 'success', data: [1, 2, 3] })
+    expect(signal!.aborted).toBe(true)
+  })
+
+  it('should settle spawned tasks with allSettled()', async () => {
+    const result = await allSettled({
+      async spawner() {
+        this.$spawn('failing', async () => {
+          throw new Error('spawned task failed')
+        })
+        return 1
+      },
+    })
+
+    expect(result).toEqual({
+      spawner: { status: 'fulfilled', value: 1 },
+      failing: {
+        status: 'rejected',
+        reason: new Error('spawned task failed'),
+      },
     })
   })
 
-  describe('Type inference', () => {
-    it('should require explicit type parameter', async () => {
-      const f = await flow<number | string>({
-        async task1() {
-          this.$end(42)
+  it('should detect cycles with spawned tasks', async () => {
+    await expect(
+      all({
+        async spawner(): Promise<number> {
+          this.$spawn('child', async function () {
+            return await this.$.spawner
+          })
+          const $ = this.$ as Record<string, Promise<number>>
+          return await $.child
+        },
+      }),
+    ).rejects.toThrow(DependencyCycleError)
+  })
+
+  it('should trace spawned tasks and count them in progress', async () => {
+    let timings: TaskTiming[] = []
+    const totals: number[] = []
+
+    await all(
+      {
+        async spawner() {
+          this.$spawn('child', async function () {
+            return (await this.$.spawner) + 1
+          })
           return 1
         },
-        async task2() {
-          this.$end('hello')
-          return 'world'
+      },
+      {
+        onTrace(t) {
+          timings = t
         },
-      })
+        onProgress(progress) {
+          totals.push(progress.total)
+        },
+      },
+    )
 
-      // f should be number | string | undefined
-      expectTypeOf(f).toMatchTypeOf<number | string | undefined>()
+    expect(timings.map((t) => [t.name, t.dependencies])).toEqual([
+      ['spawner', []],
+      ['child', ['spawner']],
+    ])
+    expect(totals[0]).toBe(1)
+    expect(totals[totals.length - 1]).toBe(2)
+  })
+})
+
+describe('Declared dependencies', () => {
+  it('should pass the results of declared dependencies to run', async () => {
+    const result = await all({
+      async user() {
+        await sleep(5)
+        return { name: 'Alice' }
+      },
+      config() {
+        return { greeting: 'Hello' }
+      },
+      greeting: {
+        deps: ['user', 'config'],
+        run({
+          user,
+          config,
+        }: {
+          user: { name: string }
+          config: { greeting: string }
+        }) {
+          return `${config.greeting} ${user.name}`
+        },
+      },
+      async shout() {
+        return (await this.$.greeting).toUpperCase()
+      },
+    })
+
+    expect(result).toEqual({
+      user: { name: 'Alice' },
+      config: { greeting: 'Hello' },
+      greeting: 'Hello Alice',
+      shout: 'HELLO ALICE',
     })
   })
 
-  describe('Edge cases', () => {
-    it('should return undefined if no task calls $end()', async () => {
-      const result = await flow<number>({
-        async task1() {
+  it('should give run the same context as task functions', async () => {
+    const result = await all(
+      {
+        async a() {
           return 1
         },
-        async task2() {
-          return 2
+        b: {
+          deps: ['a'],
+          async run({ a }: { a: number }) {
+            expect(this.$signal).toBeInstanceOf(AbortSignal)
+            return a + (await this.$.a) + this.$input.offset
+          },
         },
-      })
-      expect(result).toBeUndefined()
+      },
+      { input: { offset: 10 } },
+    )
+
+    expect(result.b).toBe(12)
+  })
+
+  it('should fail declared tasks whose dependency failed', async () => {
+    const run = vi.fn()
+
+    const result = await allSettled({
+      async a(): Promise<number> {
+        throw new Error('a failed')
+      },
+      b: { deps: ['a'], run },
     })
 
-    it('should handle $end() with undefined value', async () => {
-      const f = await flow<undefined>({
-        async task1() {
-          this.$end(undefined)
+    expect(run).not.toHaveBeenCalled()
+    expect(result.b).toEqual({
+      status: 'rejected',
+      reason: new Error('a failed'),
+    })
+  })
+
+  it('should reject unknown dependencies before running', async () => {
+    const a = vi.fn()
+
+    await expect(
+      all({
+        a,
+        b: {
+          // @ts-expect-error - unknown task
+          deps: ['usr'],
+          run() {
+            return 1
+          },
         },
-      })
+      }),
+    ).rejects.toThrow('Task "b" depends on unknown task "usr"')
+    expect(a).not.toHaveBeenCalled()
+  })
 
-      expect(f).toBeUndefined()
+  it('should reject declared cycles before running', async () => {
+    const a = vi.fn()
+
+    const error = await all({
+      a,
+      b: { deps: ['c'], run: () => 1 },
+      c: { deps: ['d'], run: () => 1 },
+      d: { deps: ['b'], run: () => 1 },
+    }).catch((err) => err)
+
+    expect(error).toBeInstanceOf(DependencyCycleError)
+    expect(error.cycle).toEqual(['b', 'c', 'd', 'b'])
+    expect(a).not.toHaveBeenCalled()
+  })
+
+  it('should validate declared dependencies when the graph is defined', () => {
+    expect(() =>
+      defineGraph({
+        a: { deps: ['b'], run: () => 1 },
+        b: { deps: ['a'], run: () => 1 },
+      }),
+    ).toThrow(DependencyCycleError)
+
+    expect(() =>
+      defineGraph({
+        a: {
+          // @ts-expect-error - unknown task
+          deps: ['missing'],
+          run: () => 1,
+        },
+      }),
+    ).toThrow('Task "a" depends on unknown task "missing"')
+  })
+
+  it('should allow dependencies on the outer graph in nested graphs', async () => {
+    const result = await all({
+      async user() {
+        return 'Alice'
+      },
+      async page() {
+        return this.$all({
+          header: {
+            deps: ['user'],
+            run: ({ user }: { user: string }) => `Hello ${user}`,
+          },
+        })
+      },
     })
 
-    it('should handle $end() with null value', async () => {
-      const f = await flow<null>({
-        async task1() {
-          this.$end(null)
+    expect(result.page).toEqual({ header: 'Hello Alice' })
+  })
+
+  it('should trace declared dependencies', async () => {
+    let timings: TaskTiming[] = []
+
+    await all(
+      {
+        async a() {
+          return 1
         },
-      })
+        async b() {
+          return 2
+        },
+        c: {
+          deps: ['a', 'b'],
+          run: ({ a, b }: { a: number; b: number }) => a + b,
+        },
+      },
+      {
+        onTrace(t) {
+          timings = t
+        },
+      },
+    )
 
-      expect(f).toBeNull()
+    expect(timings.find((t) => t.name === 'c')!.dependencies).toEqual([
+      'a',
+      'b',
+    ])
+  })
+
+  it('should type the results of declared tasks', async () => {
+    const result = await all({
+      async a() {
+        return 1
+      },
+      b: {
+        deps: ['a'],
+        async run({ a }: { a: number }) {
+          return String(a)
+        },
+      },
+      async c() {
+        expectTypeOf(await this.$.b).toEqualTypeOf<string>()
+        expectTypeOf(await this.$try.b).toEqualTypeOf<string | undefined>()
+        return 1
+      },
     })
 
-    it('should handle $end() with 0 value', async () => {
-      const f = await flow<number>({
-        async task1() {
-          this.$end(0)
-        },
-      })
+    expectTypeOf(result).toEqualTypeOf<{ a: number; b: string; c: number }>()
+  })
 
-      expect(f).toBe(0)
+  it('should type the argument of run with task()', async () => {
+    const tasks = {
+      async a() {
+        return 1
+      },
+      b() {
+        return 'b'
+      },
+    }
+
+    const result = await all(
+      {
+        ...tasks,
+        c: task<typeof tasks, { offset: number }>()(
+          ['a', 'b'],
+          async function ({ a, b }) {
+            expectTypeOf(a).toEqualTypeOf<number>()
+            expectTypeOf(b).toEqualTypeOf<string>()
+            return `${b}${a + this.$input.offset + (await this.$.a)}`
+          },
+        ),
+        async d() {
+          return (await this.$.c).length
+        },
+      },
+      { input: { offset: 10 } },
+    )
+
+    expect(result).toEqual({ a: 1, b: 'b', c: 'b12', d: 3 })
+    expectTypeOf(result).toEqualTypeOf<{
+      a: number
+      b: string
+      c: string
+      d: number
+    }>()
+
+    // @ts-expect-error - unknown task
+    task<typeof tasks>()(['usr'], () => 1)
+  })
+
+  it('should check the argument of run against the dependencies', async () => {
+    await all({
+      async a() {
+        return 1
+      },
+      async b() {
+        return 'b'
+      },
+      wrongType: {
+        // @ts-expect-error - `a` is a number
+        deps: ['a'],
+        run: ({ a }: { a: string }) => a,
+      },
+      undeclared: {
+        // @ts-expect-error - `b` is not a dependency
+        deps: ['a'],
+        run: ({ a, b }: { a: number; b: string }) => a + b,
+      },
+      nested: {
+        deps: ['a'],
+        async run() {
+          return this.$all({
+            inner: {
+              // @ts-expect-error - `a` of the outer graph is a number
+              deps: ['a'],
+              run: ({ a }: { a: boolean }) => a,
+            },
+          })
+        },
+      },
     })
+  })
+})
 
-    it('should handle $end() with false value', async () => {
-      const f = await flow<boolean>({
-        async task1() {
-          this.$end(false)
+describe('Execution introspection', () => {
+  it('should expose the dependency structure of the execution', async () => {
+    let execution: TaskExecution | undefined
+
+    await all(
+      {
+        async user() {
+          return 1
         },
-      })
+        async config() {
+          return 2
+        },
+        async posts() {
+          return (await this.$.user) + (await this.$.config)
+        },
+        async feed() {
+          return (await this.$.posts) + (await this.$.user)
+        },
+      },
+      {
+        onExecution(e) {
+          execution = e
+        },
+      },
+    )
 
-      expect(f).toBe(false)
+    expect(execution!.tasks).toEqual(['user', 'config', 'posts', 'feed'])
+    expect(execution!.getDependencies('posts')).toEqual(['user', 'config'])
+    expect(execution!.getDependencies('user')).toEqual([])
+    expect(execution!.getDependents('user')).toEqual(['posts', 'feed'])
+    expect(execution!.getDependents('feed')).toEqual([])
+  })
+
+  it('should report the state of every task while running', async () => {
+    let execution: TaskExecution | undefined
+    let status: Record<string, string> = {}
+
+    await all(
+      {
+        async a() {
+          await sleep(20)
+          return 1
+        },
+        async b() {
+          return await this.$.a
+        },
+        async c() {
+          await sleep(5)
+          status = execution!.getStatus()
+        },
+        async d() {
+          return 1
+        },
+      },
+      {
+        concurrency: 2,
+        onExecution(e) {
+          execution = e
+          expect(e.getState('a')).toBe('pending')
+        },
+      },
+    )
+
+    expect(status).toEqual({
+      a: 'running',
+      b: 'waiting',
+      c: 'running',
+      d: 'pending',
+    })
+    expect(execution!.getStatus()).toEqual({
+      a: 'fulfilled',
+      b: 'fulfilled',
+      c: 'fulfilled',
+      d: 'fulfilled',
     })
   })
 
-  describe('$end() with pending dependency resolvers', () => {
-    it('should not hang when $end() is called and other tasks are waiting on the ended task', async () => {
-      const f = await flow<undefined>({
-        async anonId() {
-          const anonId = null // simulate no anon ID
-          if (!anonId) {
-            this.$end(undefined)
-          }
-          return anonId!
+  it('should report the final state of failed tasks', async () => {
+    let execution: TaskExecution | undefined
+
+    await allSettled(
+      {
+        async a(): Promise<number> {
+          throw new Error('a failed')
         },
-        async ip() {
-          return 'ip-value'
+        async b() {
+          return (await this.$.a) + 1
         },
-        async claimChats() {
-          await this.$.anonId
-          return 'claimed'
+        async c() {
+          return 1
         },
-        async deleteId() {
-          await this.$.anonId
-          return 'deleted'
+      },
+      {
+        onExecution(e) {
+          execution = e
         },
-        async track() {
-          await this.$.anonId
-          await this.$.ip
-          return 'tracked'
+      },
+    )
+
+    expect(execution!.getStatus()).toEqual({
+      a: 'rejected',
+      b: 'rejected',
+      c: 'fulfilled',
+    })
+    expect(execution!.getDependents('a')).toEqual(['b'])
+  })
+
+  it('should expose the timings of settled tasks', async () => {
+    let execution: TaskExecution | undefined
+    let namesWhileRunning: string[] = []
+
+    await all(
+      {
+        async a() {
+          return 1
         },
-      })
+        async b() {
+          await this.$.a
+          await sleep(5)
+          namesWhileRunning = execution!.getTimings().map((t) => t.name)
+          return 2
+        },
+      },
+      {
+        onExecution(e) {
+          execution = e
+        },
+      },
+    )
 
-      expect(f).toBeUndefined()
-    }, 1000) // 1s timeout - will fail if deadlocked
+    expect(namesWhileRunning).toEqual(['a'])
+    expect(execution!.getTimings().map((t) => [t.name, t.status])).toEqual([
+      ['a', 'fulfilled'],
+      ['b', 'fulfilled'],
+    ])
+  })
 
-    it('should not hang when $end() is called before dependent tasks call waitForDep', async () => {
-      const f = await flow<string>({
-        async fast() {
-          this.$end('done')
+  it('should list declared dependencies before the task runs', async () => {
+    let execution: TaskExecution | undefined
+
+    await all(
+      {
+        async a() {
+          return 1
         },
-        async slow() {
-          await sleep(50) // sleep so fast() has already called $end
-          await this.$.fast // should not hang
-          return 'slow-result'
+        b: {
+          deps: ['a'],
+          run: ({ a }: { a: number }) => a + 1,
         },
-      })
+      },
+      {
+        targets: ['a'],
+        onExecution(e) {
+          execution = e
+        },
+      },
+    )
 
-      expect(f).toBe('done')
-    }, 1000)
+    expect(execution!.getState('b')).toBe('pending')
+    expect(execution!.getDependencies('b')).toEqual(['a'])
+    expect(execution!.getDependents('a')).toEqual(['b'])
   })
 
-  describe('External signal integration', () => {
-    it('should respect external abort signal', async () => {
-      const controller = new AbortController()
+  it('should include spawned tasks', async () => {
+    let execution: TaskExecution | undefined
 
-      const promise = flow<string>(
-        {
-          async task1() {
-            // Check signal before sleeping
-            if (this.$signal.aborted) throw this.$signal.reason
-            await sleep(100)
-            if (this.$signal.aborted) throw this.$signal.reason
-            this.$end('done')
-          },
-          async task2() {
-            if (this.$signal.aborted) throw this.$signal.reason
-            await sleep(200)
-            if (this.$signal.aborted) throw this.$signal.reason
-            this.$end('also-done')
-          },
+    await all(
+      {
+        async spawner() {
+          this.$spawn('child', async () => 1)
         },
-        { signal: controller.signal }
-      )
+      },
+      {
+        onExecution(e) {
+          execution = e
+        },
+      },
+    )
 
-      // Abort after a short delay
-      setTimeout(() => controller.abort(new Error('Aborted')), 10)
+    expect(execution!.tasks).toEqual(['spawner', 'child'])
+    expect(execution!.getState('child')).toBe('fulfilled')
+  })
 
-      await expect(promise).rejects.toThrow('Aborted')
-    })
+  it('should throw for unknown tasks', async () => {
+    let execution: TaskExecution | undefined
+
+    await all(
+      {
+        async a() {
+          return 1
+        },
+      },
+      {
+        onExecution(e) {
+          execution = e
+        },
+      },
+    )
+
+    expect(() => execution!.getState('b')).toThrow('Unknown task "b"')
+    expect(() => execution!.getDependents('b')).toThrow('Unknown task "b"')
   })
 })
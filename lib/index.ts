@@ -9,8 +9,24 @@
  * })
  */
 
-// Extract the resolved return type from task functions
-type TaskResult<T> = T extends (...args: any[]) => infer R ? Awaited<R> : never
+// Extract the resolved return type from task functions and declared tasks
+type TaskResult<T> = T extends (...args: any[]) => infer R
+  ? Awaited<R>
+  : T extends { run(...args: any[]): infer R }
+    ? Awaited<R>
+    : never
+
+// Return type of a task function, or of the `run` of a declared task
+type TaskReturnType<T> = T extends DeclaredTask
+  ? ReturnType<T['run']>
+  : ReturnType<Extract<T, (...args: any[]) => any>>
+
+// A task that declares its dependencies up front, and receives their results
+// as the argument of `run`
+type DeclaredTask = {
+  deps: readonly string[]
+  run(deps: Record<string, any>): unknown
+}
 
 // The $ proxy type - all task results as promises
 type DepProxy<T extends Record<string, (...args: any[]) => any>> = {
@@ -28,6 +44,12 @@ type AllResult<T extends Record<string, (...args: any[]) => any>> = {
   [K in keyof T]: TaskResult<T[K]>
 }
 
+// Result type when only some tasks are requested via `targets`, or some are
+// `optional`. Other tasks are only included if they ran and succeeded.
+type TargetResult<R, K extends keyof R> = [keyof R] extends [K]
+  ? R
+  : Pick<R, K> & Partial<Omit<R, K>>
+
 // Settled result types for allSettled
 type SettledFulfilled<T> = {
   status: 'fulfilled'
@@ -39,51 +61,440 @@ type SettledRejected = {
   reason: any
 }
 
+// Task that failed only because a dependency it awaited failed, reported
+// with `reportSkipped: true`. `cause` names the task that actually failed.
+type SettledSkipped = {
+  status: 'skipped'
+  reason: any
+  cause: string
+}
+
 type SettledResult<T> = SettledFulfilled<T> | SettledRejected
 
 // Result type for allSettled - all tasks as settled results
-type AllSettledResult<T extends Record<string, (...args: any[]) => any>> = {
-  [K in keyof T]: SettledResult<TaskResult<T[K]>>
+type AllSettledResult<
+  T extends Record<string, (...args: any[]) => any>,
+  S extends boolean = false,
+> = {
+  [K in keyof T]:
+    | SettledResult<TaskResult<T[K]>>
+    | (S extends true ? SettledSkipped : never)
+}
+
+// A task yielded by stream() as soon as it settles
+type StreamResult<
+  T extends Record<string, (...args: any[]) => any>,
+  S extends boolean = false,
+> = {
+  [K in keyof T]: { name: K } & AllSettledResult<T, S>[K]
+}[keyof T]
+
+// Retry policy for a task, with exponential backoff between attempts
+type RetryPolicy = {
+  // Maximum number of attempts, including the first one
+  attempts: number
+  // Delay in milliseconds before the first retry (default: 100)
+  delay?: number
+  // Multiplier applied to the delay after each retry (default: 2)
+  factor?: number
+  // Upper bound for the delay in milliseconds
+  maxDelay?: number
+  // Randomize each delay between 50% and 100% of its value (default: true)
+  jitter?: boolean
+  // Decide whether a failed attempt should be retried
+  shouldRetry?: (error: unknown, attempt: number) => boolean
+}
+
+// `this` inside the tasks passed to all(), allSettled() and defineGraph()
+type TaskThis<T extends Record<string, any>, I = undefined> = {
+  $: {
+    [K in keyof T]: TaskReturnType<T[K]> extends Promise<infer R>
+      ? Promise<R>
+      : Promise<TaskReturnType<T[K]>>
+  }
+  // Optional access: settled results that never reject
+  $settled: {
+    [K in keyof T]: Promise<SettledResult<Awaited<TaskReturnType<T[K]>>>>
+  }
+  // Optional access: `undefined` if the dependency failed
+  $try: {
+    [K in keyof T]: Promise<Awaited<TaskReturnType<T[K]>> | undefined>
+  }
+  $signal: AbortSignal
+  $input: I
+  // Run a nested graph whose tasks can also access the tasks of this graph
+  $all: <S extends Record<string, any>, D extends string = string>(
+    tasks: S &
+      ThisType<TaskThis<Omit<T, keyof S> & S, I>> &
+      TaskFunctions<S, D, Omit<T, keyof S> & S>,
+    options?: SubgraphOptions<NoInfer<S>>,
+  ) => Promise<AllResult<S>>
+  // Run `fn` for every item of a task that returns an array
+  $map: <K extends keyof T, R, S extends boolean = false>(
+    dependency: K,
+    fn: (
+      item: MapItem<TaskResult<T[K]>>,
+      index: number,
+      signal: AbortSignal,
+    ) => R | Promise<R>,
+    options?: MapOptions<S>,
+  ) => Promise<Array<S extends true ? SettledResult<Awaited<R>> : Awaited<R>>>
+  // Add a task to the running graph. Other tasks can await its result through
+  // `this.$` once it has been spawned, and it is included in the result.
+  $spawn: (name: string, fn: (this: TaskThis<T, I>) => unknown) => void
+}
+
+// Options of a nested graph. The input, signal and tracing come from the
+// outer graph.
+type SubgraphOptions<S extends Record<string, any>> = Omit<
+  ExecutionOptions<S>,
+  'input' | 'signal' | 'debug' | 'onTrace' | 'targets' | 'optional'
+>
+
+// Item type of an array task result
+type MapItem<T> = T extends readonly (infer E)[] ? E : never
+
+// Options of `this.$map`
+type MapOptions<S extends boolean = false> = {
+  // Maximum number of items processed at the same time
+  concurrency?: number
+  // Set to `true` to resolve with a settled result for every item instead of
+  // rejecting on the first failure
+  settled?: S
+}
+
+// `this` inside the tasks passed to flow()
+type FlowTaskThis<T extends Record<string, any>, R, I = undefined> = TaskThis<
+  T,
+  I
+> & {
+  $end: (value: R) => never
+}
+
+// `this` inside the tasks passed to defineGraph(). `$end` is only defined when
+// the graph is run with `.flow()`.
+type GraphTaskThis<T extends Record<string, any>, I = undefined> = TaskThis<
+  T,
+  I
+> & {
+  $end?: (value: unknown) => never
+}
+
+// Turns non-function tasks into a readable type error, and checks declared
+// tasks against the tasks they can access (`A`): their dependencies must
+// exist, and the argument of `run` must accept their results. The errors are
+// reported on `deps`, as checking `run` itself would be circular. `D` only
+// captures the dependency names as literal types.
+type TaskFunctions<
+  T extends Record<string, any>,
+  D extends string,
+  A extends Record<string, any> = T,
+> = {
+  [K in keyof T as T[K] extends Function | { deps: readonly string[] }
+    ? K
+    : `Error: task \`${K & string}\` is not a function`]-?: T[K] extends Function
+    ? T[K]
+    : T[K] & { deps: DeclaredDeps<A, T[K]['deps'][number], T[K]['run']> }
+} & Record<string, Function | { deps: readonly D[]; run: Function }>
+
+// Type of `deps` of a declared task with dependencies `N` and run function
+// `R`, or a readable type error
+type DeclaredDeps<A extends Record<string, any>, N, R> = [N] extends [keyof A]
+  ? R extends (deps: DeclaredResults<A, N>) => any
+    ? readonly (keyof A)[]
+    : 'Error: `run` does not accept the results of `deps`'
+  : `Error: unknown task \`${Exclude<N, keyof A> & string}\``
+
+// The argument of `run`: the results of the dependencies of a declared task
+type DeclaredResults<A extends Record<string, any>, N> = {
+  [K in N & keyof A]: TaskResult<A[K]>
+}
+
+// A declared task created with task(), whose `run` gets the results of the
+// tasks `T` it depends on
+type TypedDeclaredTask<T extends Record<string, any>, I, N, R> = {
+  deps: readonly N[]
+  run(this: TaskThis<T, I>, deps: DeclaredResults<T, N>): R
+}
+
+// A store for cached task results. Methods may return promises, e.g. for a
+// remote cache. `get` wraps hits in an object so `undefined` can be cached.
+export type CacheStore = {
+  get(
+    key: string,
+  ): { value: unknown } | undefined | Promise<{ value: unknown } | undefined>
+  // `ttl` is in milliseconds, or undefined to keep the value until evicted
+  set(key: string, value: unknown, ttl?: number): void | Promise<void>
+}
+
+// Caching of a task's result across executions
+type CachePolicy<I = unknown> = {
+  // Executions whose input has the same key share the result
+  key: (input: I) => string
+  // Time in milliseconds to keep the result (default: until evicted)
+  ttl?: number
+  // Where to keep results (default: an in-memory LRU shared by all graphs,
+  // where results are scoped to the task function)
+  store?: CacheStore
+}
+
+// Per-task options, keyed by task name in `ExecutionOptions.taskOptions`
+type TaskOptions<
+  R = any,
+  T extends Record<string, any> = Record<string, any>,
+  I = any,
+> = {
+  // Maximum time in milliseconds the task may run before it is aborted
+  timeout?: number
+  retry?: RetryPolicy
+  // Result to use if the task fails, or a function that computes it from
+  // the error and the results of other tasks
+  fallback?: R | ((error: unknown, $: TaskThis<T>['$']) => R | Promise<R>)
+  cache?: CachePolicy<I>
+}
+
+// What hooks get to know about a graph execution. The same object is passed
+// to every hook of one execution, so it can key per-execution state.
+export type GraphHookInfo = {
+  // All task names, including tasks that don't run because of `targets`
+  tasks: string[]
+  signal: AbortSignal
+  input: unknown
+}
+
+// What hooks get to know about a task
+export type TaskHookInfo = {
+  // The graph execution the task belongs to
+  graph: GraphHookInfo
+  name: string
+  // The tasks it accessed through `this.$` so far
+  dependencies: string[]
+  // The signal passed to the task as `this.$signal`
+  signal: AbortSignal
+  input: unknown
+}
+
+// Lifecycle hooks around every task, e.g. for logging, metrics or tracing
+export type TaskHooks = {
+  onGraphStart?: (graph: GraphHookInfo) => void
+  // Called once the returned promise settles, with the error if it rejects
+  onGraphEnd?: (
+    graph: GraphHookInfo,
+    outcome: { duration: number; error?: unknown },
+  ) => void
+  // Called once the task starts running, after any concurrency queueing
+  onTaskStart?: (task: TaskHookInfo) => void
+  onTaskEnd?: (
+    task: TaskHookInfo & { result: unknown; duration: number },
+  ) => void
+  onTaskError?: (
+    task: TaskHookInfo & { error: unknown; duration: number },
+  ) => void
+  // Called when the task starts waiting on a dependency that hasn't settled
+  onDependencyWait?: (task: TaskHookInfo, dependency: string) => void
+  // Wrap every invocation of the task function (once per retry attempt),
+  // e.g. to run it inside an AsyncLocalStorage context. Must call `next`.
+  wrapTask?: (
+    task: TaskHookInfo,
+    next: () => Promise<unknown>,
+  ) => Promise<unknown>
+}
+
+// Number of tasks in each state, reported to `onProgress`
+export type TaskProgress = {
+  // With `targets`, only the tasks that were reached so far
+  total: number
+  // Not started yet, or queued for a concurrency slot
+  pending: number
+  running: number
+  // Blocked on a dependency
+  waiting: number
+  fulfilled: number
+  rejected: number
+}
+
+// State of a task in a running or finished execution
+export type TaskState =
+  | 'pending'
+  | 'running'
+  | 'waiting'
+  | 'fulfilled'
+  | 'rejected'
+
+// Live view of an execution, passed to `onExecution`
+export type TaskExecution = {
+  // All tasks of the graph, including spawned ones
+  readonly tasks: readonly string[]
+  getState(name: string): TaskState
+  // Declared dependencies, and the tasks accessed through `this.$` so far
+  getDependencies(name: string): string[]
+  // Tasks that depend on `name`, by the same measure
+  getDependents(name: string): string[]
+  // Timings of the tasks that have settled so far
+  getTimings(): TaskTiming[]
+  // The state of every task
+  getStatus(): Record<string, TaskState>
 }
 
 // Options for all() and allSettled()
-type ExecutionOptions = {
+type ExecutionOptions<
+  T extends Record<string, any> = Record<string, any>,
+  I = unknown,
+> = {
+  // Exposed to every task as `this.$input`
+  input?: I
   debug?: boolean
+  // Called with the timing of every task once the graph has settled
+  onTrace?: (timings: TaskTiming[]) => void
+  // Lifecycle hooks, run in order. The first `wrapTask` is the outermost.
+  hooks?: TaskHooks | TaskHooks[]
+  // Called with the number of tasks in each state whenever a task changes
+  // state
+  onProgress?: (progress: TaskProgress) => void
+  // Called with a live view of the execution before any task starts
+  onExecution?: (execution: TaskExecution) => void
   signal?: AbortSignal
+  // Maximum time in milliseconds for the whole graph
+  timeout?: number
+  // Maximum number of tasks running at the same time
+  concurrency?: number
+  // Only start these tasks, and other tasks once a running task needs them
+  targets?: ReadonlyArray<keyof T>
+  // all() and flow() only: tasks whose failure doesn't fail the graph. They
+  // are left out of the result, and dependents read them with `$try` or
+  // `$settled`.
+  optional?: ReadonlyArray<keyof T>
+  // all() only: wait for every task to settle after a failure, and reject
+  // with a TaskGraphError listing all failures
+  aggregateErrors?: boolean
+  // allSettled() only: report tasks that failed because a dependency failed
+  // as `{ status: 'skipped' }`
+  reportSkipped?: boolean
+  taskOptions?: {
+    [K in keyof T]?: TaskOptions<Awaited<TaskReturnType<T[K]>>, T, I>
+  }
 }
 
 // Internal options for executeTasksInternal
-type InternalExecutionOptions = ExecutionOptions & {
+type InternalExecutionOptions = ExecutionOptions<any, any> & {
   flowMode?: boolean
+  // Called with the settled result of each task, for stream()
+  onSettled?: (name: string, result: any) => void
+  // For nested graphs: access to the tasks of the outer graph
+  parentDependency?: (name: string) => Promise<any>
 }
 
-// Tracking info for debug mode
-type TaskTiming = {
+// Tracking info for debug mode and `onTrace`. Times are from performance.now()
+export type TaskTiming = {
   name: string
   startTime: number
   endTime: number
   duration: number
   dependencies: string[]
-  status: 'fulfilled' | 'rejected'
-  waitPeriods: Array<{ start: number; end: number }>
+  status: 'fulfilled' | 'rejected' | 'timedOut'
+  // The error of rejected and timed out tasks
+  error?: unknown
+  waitPeriods: Array<{ start: number; end: number; dependency: string }>
+  queuedPeriods: Array<{ start: number; end: number }>
+  attempts: Array<{ start: number; end: number; error?: unknown }>
+  // The result came from the cache, or from a concurrent execution
+  cached?: boolean
+  // For tasks of a nested graph (`this.$all`), the task that ran it. Their
+  // names are prefixed with it, e.g. `page/header`.
+  parent?: string
+}
+
+/**
+ * Order timings by start time, with the tasks of nested graphs right after
+ * the task that ran them, and their nesting depth.
+ */
+function orderTimings(
+  timings: TaskTiming[],
+): Array<{ timing: TaskTiming; depth: number }> {
+  const sortedTimings = [...timings].sort((a, b) => a.startTime - b.startTime)
+  const names = new Set(timings.map((t) => t.name))
+  const ordered: Array<{ timing: TaskTiming; depth: number }> = []
+  const visit = (parent: string | undefined, depth: number) => {
+    for (const timing of sortedTimings) {
+      // Tasks whose parent has no timing are shown at the top level
+      const timingParent =
+        timing.parent && names.has(timing.parent) ? timing.parent : undefined
+      if (timingParent !== parent) continue
+      ordered.push({ timing, depth })
+      visit(timing.name, depth + 1)
+    }
+  }
+  visit(undefined, 0)
+  return ordered
 }
 
 /**
- * Generate ASCII waterfall chart for task execution
+ * Prefix the task names of a nested graph's timings with the task that ran
+ * it. Dependencies on tasks of outer graphs are left as they are.
  */
-function generateWaterfallChart(timings: TaskTiming[]): string {
+function nestTimings(timings: TaskTiming[], parent: string): TaskTiming[] {
+  const names = new Set(timings.map((t) => t.name))
+  const qualify = (name: string) =>
+    names.has(name) ? `${parent}/${name}` : name
+  return timings.map((timing) => ({
+    ...timing,
+    name: `${parent}/${timing.name}`,
+    parent: timing.parent ? `${parent}/${timing.parent}` : parent,
+    dependencies: timing.dependencies.map(qualify),
+    waitPeriods: timing.waitPeriods.map((wait) => ({
+      ...wait,
+      dependency: qualify(wait.dependency),
+    })),
+  }))
+}
+
+// Timeline characters for active execution, by task status
+const STATUS_CHARS: Record<TaskTiming['status'], string> = {
+  fulfilled: '█',
+  rejected: '▓',
+  timedOut: '▒',
+}
+
+/**
+ * Generate ASCII waterfall chart for task execution.
+ * This is what debug mode prints, and can be used with the timings from
+ * `onTrace` as well.
+ */
+export function generateWaterfallChart(timings: TaskTiming[]): string {
   if (timings.length === 0) return ''
 
   const startTime = Math.min(...timings.map((t) => t.startTime))
   const endTime = Math.max(...timings.map((t) => t.endTime))
   const totalDuration = endTime - startTime
 
+  // Sort by start time, with nested tasks indented below their parent
+  const orderedTimings = orderTimings(timings)
+
+  // Nested tasks are shown relative to their parent, and cache hits are
+  // marked next to the task name
+  const relative = (t: TaskTiming, name: string) =>
+    t.parent && name.startsWith(`${t.parent}/`)
+      ? name.slice(t.parent.length + 1)
+      : name
+  const labels = new Map(
+    orderedTimings.map(({ timing: t, depth }) => [
+      t,
+      `${'  '.repeat(depth)}${depth > 0 ? relative(t, t.name) : t.name}${
+        t.cached ? ' (cached)' : ''
+      }`,
+    ]),
+  )
+  const dependencyLists = new Map(
+    timings.map((t) => [
+      t,
+      t.dependencies.map((dependency) => relative(t, dependency)).join(', '),
+    ]),
+  )
+
   // Find longest task name for padding
-  const maxNameLength = Math.max(...timings.map((t) => t.name.length))
+  const maxNameLength = Math.max(...timings.map((t) => labels.get(t)!.length))
   const maxDepsLength = Math.max(
-    ...timings.map((t) =>
-      t.dependencies.length > 0 ? t.dependencies.join(', ').length : 0,
-    ),
+    ...timings.map((t) => dependencyLists.get(t)!.length),
     4, // minimum for "Deps" header
   )
 
@@ -115,13 +526,10 @@ function generateWaterfallChart(timings: TaskTiming[]): string {
     maxDepsLength,
   )}─┼──────────┼─${'─'.repeat(chartWidth)}\n`
 
-  // Sort by start time
-  const sortedTimings = [...timings].sort((a, b) => a.startTime - b.startTime)
-
-  for (const timing of sortedTimings) {
-    const name = timing.name.padEnd(maxNameLength)
+  for (const { timing } of orderedTimings) {
+    const name = labels.get(timing)!.padEnd(maxNameLength)
     const deps = (
-      timing.dependencies.length > 0 ? timing.dependencies.join(', ') : '-'
+      timing.dependencies.length > 0 ? dependencyLists.get(timing)! : '-'
     ).padEnd(maxDepsLength)
     const duration = `${timing.duration.toFixed(1)}ms`.padStart(8)
 
@@ -145,13 +553,33 @@ function generateWaterfallChart(timings: TaskTiming[]): string {
         const isWaiting = timing.waitPeriods.some(
           (wait) => absoluteTime >= wait.start && absoluteTime < wait.end,
         )
+        const isQueued = timing.queuedPeriods.some(
+          (queued) =>
+            absoluteTime >= queued.start && absoluteTime < queued.end,
+        )
+
+        const attempt = timing.attempts.findIndex(
+          (a) => absoluteTime < a.end,
+        )
 
         if (isWaiting) {
           // Waiting on dependency
           timeline.push('░')
+        } else if (isQueued) {
+          // Waiting for a free concurrency slot
+          timeline.push('·')
+        } else if (
+          attempt > 0 &&
+          absoluteTime < timing.attempts[attempt].start
+        ) {
+          // Backing off before a retry
+          timeline.push('-')
+        } else if (attempt !== -1 && attempt < timing.attempts.length - 1) {
+          // Active execution of an attempt that failed and was retried
+          timeline.push('▓')
         } else {
           // Active execution
-          timeline.push(timing.status === 'fulfilled' ? '█' : '▓')
+          timeline.push(STATUS_CHARS[timing.status])
         }
       }
     }
@@ -159,14 +587,968 @@ function generateWaterfallChart(timings: TaskTiming[]): string {
     output += `${name} │ ${deps} │ ${duration} │ ${timeline.join('')}\n`
   }
 
+  const legend = [
+    '█ = active (fulfilled)',
+    '▓ = active (rejected)',
+    '░ = waiting on dependency',
+  ]
+  if (timings.some((t) => t.status === 'timedOut')) {
+    legend.push('▒ = active (timed out)')
+  }
+  if (timings.some((t) => t.attempts.length > 1)) {
+    legend.push('- = retry backoff')
+  }
+  if (timings.some((t) => t.queuedPeriods.length > 0)) {
+    legend.push('· = queued')
+  }
+
   output += '\n'
-  output +=
-    'Legend: █ = active (fulfilled), ▓ = active (rejected), ░ = waiting on dependency\n'
+  output += `Legend: ${legend.join(', ')}\n`
   output += '\n'
+  // Nested tasks are part of the task that ran them
+  const topLevelTimings = orderedTimings
+    .filter(({ depth }) => depth === 0)
+    .map(({ timing }) => timing)
+  output += formatCriticalPathAnalysis(
+    analyzeCriticalPath(topLevelTimings),
+    topLevelTimings.map((t) => t.name),
+  )
+
+  return output
+}
+
+/**
+ * Find the chain of tasks that determined the total duration, from the first
+ * task of the chain to the task that finished last. Starting from the last
+ * task, each step goes to the dependency that finished last, as long as it
+ * was still running when the task started (otherwise the task didn't have to
+ * wait for it).
+ */
+function findCriticalPath(timings: TaskTiming[]): string[] {
+  if (timings.length === 0) return []
+
+  const byName = new Map(timings.map((t) => [t.name, t]))
+  let current = timings.reduce((last, t) => (t.endTime > last.endTime ? t : last))
+  const path = [current.name]
+
+  while (true) {
+    let next: TaskTiming | undefined
+    for (const dependency of current.dependencies) {
+      const dep = byName.get(dependency)
+      if (
+        dep &&
+        !path.includes(dep.name) &&
+        dep.endTime > current.startTime &&
+        (!next || dep.endTime > next.endTime)
+      ) {
+        next = dep
+      }
+    }
+    if (!next) break
+    path.unshift(next.name)
+    current = next
+  }
+
+  return path
+}
+
+// How long `task` spent blocked on `dependency` before `saving` milliseconds
+// of its own work, which could have overlapped the dependency instead
+export type LateAwait = {
+  task: string
+  dependency: string
+  waited: number
+  saving: number
+}
+
+// Result of `analyzeCriticalPath`. Durations are in milliseconds
+export type CriticalPathAnalysis = {
+  // The chain of tasks that determined the total duration, in execution order
+  criticalPath: string[]
+  totalDuration: number
+  // How much later each task could have finished without delaying the graph
+  slack: Record<string, number>
+  // Awaits on the critical path that came earlier than necessary
+  lateAwaits: LateAwait[]
+}
+
+/**
+ * Time in [start, end) that isn't covered by any of the periods.
+ */
+function uncoveredTime(
+  start: number,
+  end: number,
+  periods: Array<{ start: number; end: number }>,
+): number {
+  const clipped = periods
+    .map((p) => ({ start: Math.max(p.start, start), end: Math.min(p.end, end) }))
+    .filter((p) => p.start < p.end)
+    .sort((a, b) => a.start - b.start)
+
+  let covered = 0
+  let cursor = start
+  for (const period of clipped) {
+    if (period.end <= cursor) continue
+    covered += period.end - Math.max(period.start, cursor)
+    cursor = period.end
+  }
+  return end - start - covered
+}
 
+/**
+ * Time after `from` that the task spent blocked on dependencies. A delay of
+ * the task up to this long is absorbed, because it would still have had to
+ * wait for those dependencies.
+ */
+function blockedTimeAfter(timing: TaskTiming, from: number): number {
+  if (from >= timing.endTime) return 0
+  return (
+    timing.endTime -
+    from -
+    uncoveredTime(from, timing.endTime, timing.waitPeriods)
+  )
+}
+
+/**
+ * Compute the critical path and the slack of each task from task timings, and
+ * find the places where awaiting a dependency later would have saved time.
+ * This is printed under the waterfall chart in debug mode.
+ */
+export function analyzeCriticalPath(
+  timings: TaskTiming[],
+): CriticalPathAnalysis {
+  if (timings.length === 0) {
+    return { criticalPath: [], totalDuration: 0, slack: {}, lateAwaits: [] }
+  }
+
+  const startTime = Math.min(...timings.map((t) => t.startTime))
+  const endTime = Math.max(...timings.map((t) => t.endTime))
+  const criticalPath = findCriticalPath(timings)
+
+  // A task can be delayed until the earliest point where a dependent would
+  // have to wait for it, plus the time the dependent was blocked on other
+  // dependencies later on, plus the slack of that dependent
+  const dependents = new Map<string, TaskTiming[]>()
+  for (const timing of timings) {
+    for (const dependency of timing.dependencies) {
+      if (!dependents.has(dependency)) {
+        dependents.set(dependency, [])
+      }
+      dependents.get(dependency)!.push(timing)
+    }
+  }
+  const slack: Record<string, number> = {}
+  const computeSlack = (timing: TaskTiming): number => {
+    if (timing.name in slack) return slack[timing.name]
+    // Placeholder in case the recorded dependencies contain a cycle
+    slack[timing.name] = endTime - timing.endTime
+
+    const users = dependents.get(timing.name)
+    if (users) {
+      slack[timing.name] = Math.min(
+        ...users.map((user) => {
+          const wait = user.waitPeriods.find(
+            (w) => w.dependency === timing.name,
+          )
+          if (!wait) return computeSlack(user)
+          // Awaiting several dependencies at once only needs this one when
+          // the others are done
+          const neededAt = Math.max(
+            wait.start,
+            ...user.waitPeriods
+              .filter(
+                (w) =>
+                  w !== wait && w.start <= wait.start && w.end > wait.start,
+              )
+              .map((w) => w.end),
+          )
+          const gap = Math.max(0, neededAt - timing.endTime)
+          const resumedAt = Math.max(neededAt, wait.end)
+          return computeSlack(user) + gap + blockedTimeAfter(user, resumedAt)
+        }),
+      )
+    }
+    return slack[timing.name]
+  }
+  for (const timing of timings) {
+    computeSlack(timing)
+  }
+
+  // A critical task that was blocked on a dependency and then did its own
+  // work could have done that work while waiting, if it doesn't need the
+  // dependency. Later waits on other dependencies absorb the time saved.
+  const lateAwaits: LateAwait[] = []
+  for (const name of criticalPath) {
+    const timing = timings.find((t) => t.name === name)!
+    for (const wait of timing.waitPeriods) {
+      const waited = wait.end - wait.start
+      // Only the wait that ended last actually blocked the task
+      const overlapped = timing.waitPeriods.some(
+        (other) => other.start < wait.end && other.end > wait.end,
+      )
+      if (waited < 0.5 || overlapped) continue
+
+      const work = uncoveredTime(wait.end, timing.endTime, [
+        ...timing.waitPeriods,
+        ...timing.queuedPeriods,
+      ])
+      const saving =
+        Math.min(waited, work) - blockedTimeAfter(timing, wait.end)
+      if (saving >= 0.5) {
+        lateAwaits.push({
+          task: name,
+          dependency: wait.dependency,
+          waited,
+          saving,
+        })
+      }
+    }
+  }
+
+  return {
+    criticalPath,
+    totalDuration: endTime - startTime,
+    slack,
+    lateAwaits,
+  }
+}
+
+/**
+ * Format the critical path analysis for the debug output.
+ */
+function formatCriticalPathAnalysis(
+  analysis: CriticalPathAnalysis,
+  names: string[],
+): string {
+  if (analysis.criticalPath.length === 0) return ''
+
+  let output = `Critical Path: ${analysis.criticalPath.join(
+    ' → ',
+  )} (${analysis.totalDuration.toFixed(1)}ms)\n`
+
+  const slack = names
+    .filter((name) => !analysis.criticalPath.includes(name))
+    .map((name) => `${name} ${analysis.slack[name].toFixed(1)}ms`)
+  if (slack.length > 0) {
+    output += `Slack: ${slack.join(', ')}\n`
+  }
+
+  if (analysis.lateAwaits.length > 0) {
+    output += '\nSuggestions:\n'
+    for (const { task, dependency, waited, saving } of analysis.lateAwaits) {
+      output += `  ${task} waited ${waited.toFixed(
+        1,
+      )}ms on ${dependency}, then kept working.\n`
+      output += `    Moving \`await this.$.${dependency}\` after the work that doesn't need it could save up to ${saving.toFixed(
+        1,
+      )}ms.\n`
+    }
+  }
+
+  output += '\n'
   return output
 }
 
+// A single event of the Chrome Trace Event Format
+export type ChromeTraceEvent = {
+  name: string
+  cat?: string
+  ph: 'X' | 'M' | 's' | 'f'
+  ts: number
+  dur?: number
+  pid: number
+  tid: number
+  id?: number
+  bp?: 'e'
+  cname?: string
+  args?: Record<string, unknown>
+}
+
+// Slice colors of the trace viewer, by task status
+const TRACE_COLORS: Record<TaskTiming['status'], string | undefined> = {
+  fulfilled: undefined,
+  rejected: 'terrible',
+  timedOut: 'bad',
+}
+
+/**
+ * Serialize an error for the `args` of a trace event.
+ */
+function describeError(error: unknown): unknown {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack }
+  }
+  return String(error)
+}
+
+/**
+ * Convert task timings into the Chrome Trace Event Format, which can be
+ * opened in chrome://tracing or https://ui.perfetto.dev after
+ * `JSON.stringify`.
+ *
+ * Every task gets its own track with a slice for the whole task, and nested
+ * slices for the time it was active, waiting on a dependency or queued.
+ * Dependencies are drawn as flow arrows from the end of the dependency to
+ * the point where the dependent task stopped waiting on it.
+ */
+export function generateChromeTrace(timings: TaskTiming[]): {
+  traceEvents: ChromeTraceEvent[]
+  displayTimeUnit: 'ms'
+} {
+  const traceEvents: ChromeTraceEvent[] = []
+  if (timings.length === 0) return { traceEvents, displayTimeUnit: 'ms' }
+
+  const origin = Math.min(...timings.map((t) => t.startTime))
+  // Trace timestamps are in microseconds
+  const ts = (time: number) => (time - origin) * 1000
+  const pid = 1
+  // Nested tasks get the tracks right below the task that ran them
+  const sortedTimings = orderTimings(timings).map(({ timing }) => timing)
+  const tids = new Map(sortedTimings.map((t, i) => [t.name, i + 1]))
+
+  traceEvents.push({
+    name: 'process_name',
+    ph: 'M',
+    ts: 0,
+    pid,
+    tid: 0,
+    args: { name: 'better-all' },
+  })
+
+  for (const timing of sortedTimings) {
+    const tid = tids.get(timing.name)!
+    traceEvents.push(
+      {
+        name: 'thread_name',
+        ph: 'M',
+        ts: 0,
+        pid,
+        tid,
+        args: { name: timing.name },
+      },
+      {
+        name: 'thread_sort_index',
+        ph: 'M',
+        ts: 0,
+        pid,
+        tid,
+        args: { sort_index: tid },
+      },
+    )
+
+    const args: Record<string, unknown> = {
+      status: timing.status,
+      dependencies: timing.dependencies,
+    }
+    if (timing.parent) {
+      args.parent = timing.parent
+    }
+    if (timing.cached) {
+      args.cached = true
+    }
+    if (timing.attempts.length > 1) {
+      args.attempts = timing.attempts.length
+    }
+    if (timing.status !== 'fulfilled') {
+      args.error = describeError(timing.error)
+    }
+    traceEvents.push({
+      name: timing.name,
+      cat: 'task',
+      ph: 'X',
+      ts: ts(timing.startTime),
+      dur: timing.duration * 1000,
+      pid,
+      tid,
+      cname: TRACE_COLORS[timing.status],
+      args,
+    })
+
+    // Split the task into waiting, queued and active slices
+    const periods = [
+      ...timing.waitPeriods.map((wait) => ({
+        ...wait,
+        name: `waiting on ${wait.dependency}`,
+        cat: 'wait',
+      })),
+      ...timing.queuedPeriods.map((queued) => ({
+        ...queued,
+        name: 'queued',
+        cat: 'queue',
+      })),
+    ].sort((a, b) => a.start - b.start)
+
+    let cursor = timing.startTime
+    const pushActive = (end: number) => {
+      if (end <= cursor) return
+      traceEvents.push({
+        name: 'active',
+        cat: 'active',
+        ph: 'X',
+        ts: ts(cursor),
+        dur: (end - cursor) * 1000,
+        pid,
+        tid,
+        cname: TRACE_COLORS[timing.status],
+      })
+    }
+    for (const period of periods) {
+      pushActive(period.start)
+      // Overlapping waits (e.g. Promise.all on several dependencies) are
+      // merged so that slices on a track never overlap
+      if (period.end > cursor) {
+        const start = Math.max(period.start, cursor)
+        traceEvents.push({
+          name: period.name,
+          cat: period.cat,
+          ph: 'X',
+          ts: ts(start),
+          dur: (period.end - start) * 1000,
+          pid,
+          tid,
+        })
+        cursor = period.end
+      }
+    }
+    pushActive(timing.endTime)
+  }
+
+  // Flow arrows from each dependency to the task that waited on it
+  let flowId = 0
+  for (const timing of sortedTimings) {
+    for (const dependency of timing.dependencies) {
+      const dep = timings.find((t) => t.name === dependency)
+      if (!dep) continue
+      const wait = timing.waitPeriods.find((w) => w.dependency === dependency)
+      const id = ++flowId
+      traceEvents.push(
+        {
+          name: dependency,
+          cat: 'dependency',
+          ph: 's',
+          ts: ts(dep.endTime),
+          pid,
+          tid: tids.get(dependency)!,
+          id,
+        },
+        {
+          name: dependency,
+          cat: 'dependency',
+          ph: 'f',
+          bp: 'e',
+          ts: ts(wait ? wait.end : Math.max(dep.endTime, timing.startTime)),
+          pid,
+          tid: tids.get(timing.name)!,
+          id,
+        },
+      )
+    }
+  }
+
+  return { traceEvents, displayTimeUnit: 'ms' }
+}
+
+/**
+ * Label of a task node in the graph exports.
+ */
+function describeNode(timing: TaskTiming): string {
+  return `${timing.duration.toFixed(1)}ms · ${timing.status}`
+}
+
+/**
+ * Render the observed dependency graph as a Mermaid flowchart. Nodes show the
+ * duration and status of each task, and the critical path is highlighted.
+ */
+export function generateMermaidGraph(timings: TaskTiming[]): string {
+  const sortedTimings = [...timings].sort((a, b) => a.startTime - b.startTime)
+  const ids = new Map(sortedTimings.map((t, i) => [t.name, `t${i}`]))
+  const criticalPath = findCriticalPath(timings)
+  const escape = (text: string) => text.replace(/"/g, '#quot;')
+
+  const lines = ['flowchart LR']
+  for (const timing of sortedTimings) {
+    lines.push(
+      `  ${ids.get(timing.name)}["${escape(timing.name)}<br/>${describeNode(
+        timing,
+      )}"]`,
+    )
+  }
+
+  const criticalLinks: number[] = []
+  let link = 0
+  for (const timing of sortedTimings) {
+    for (const dependency of timing.dependencies) {
+      if (!ids.has(dependency)) continue
+      lines.push(`  ${ids.get(dependency)} --> ${ids.get(timing.name)}`)
+      const index = criticalPath.indexOf(dependency)
+      if (index !== -1 && criticalPath[index + 1] === timing.name) {
+        criticalLinks.push(link)
+      }
+      link++
+    }
+  }
+
+  const classes: Record<string, string[]> = {
+    critical: criticalPath.map((name) => ids.get(name)!),
+    rejected: sortedTimings
+      .filter((t) => t.status === 'rejected')
+      .map((t) => ids.get(t.name)!),
+    timedOut: sortedTimings
+      .filter((t) => t.status === 'timedOut')
+      .map((t) => ids.get(t.name)!),
+  }
+  lines.push(
+    '  classDef critical stroke:#e8590c,stroke-width:3px',
+    '  classDef rejected fill:#ffe3e3',
+    '  classDef timedOut fill:#fff3bf',
+  )
+  for (const [className, nodes] of Object.entries(classes)) {
+    if (nodes.length > 0) {
+      lines.push(`  class ${nodes.join(',')} ${className}`)
+    }
+  }
+  if (criticalLinks.length > 0) {
+    lines.push(
+      `  linkStyle ${criticalLinks.join(',')} stroke:#e8590c,stroke-width:3px`,
+    )
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Render the observed dependency graph in the Graphviz DOT language. Nodes
+ * show the duration and status of each task, and the critical path is
+ * highlighted.
+ */
+export function generateDotGraph(timings: TaskTiming[]): string {
+  const sortedTimings = [...timings].sort((a, b) => a.startTime - b.startTime)
+  const names = new Set(timings.map((t) => t.name))
+  const criticalPath = findCriticalPath(timings)
+  const escape = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+  const quote = (text: string) => `"${escape(text)}"`
+
+  const lines = [
+    'digraph tasks {',
+    '  rankdir=LR',
+    '  node [shape=box, style=rounded]',
+  ]
+  for (const timing of sortedTimings) {
+    const attributes = [
+      `label="${escape(timing.name)}\\n${describeNode(timing)}"`,
+    ]
+    if (timing.status !== 'fulfilled') {
+      attributes.push(
+        'style="rounded,filled"',
+        `fillcolor="${timing.status === 'rejected' ? '#ffe3e3' : '#fff3bf'}"`,
+      )
+    }
+    if (criticalPath.includes(timing.name)) {
+      attributes.push('color="#e8590c"', 'penwidth=3')
+    }
+    lines.push(`  ${quote(timing.name)} [${attributes.join(', ')}]`)
+  }
+
+  for (const timing of sortedTimings) {
+    for (const dependency of timing.dependencies) {
+      if (!names.has(dependency)) continue
+      const index = criticalPath.indexOf(dependency)
+      const critical = index !== -1 && criticalPath[index + 1] === timing.name
+      lines.push(
+        `  ${quote(dependency)} -> ${quote(timing.name)}${
+          critical ? ' [color="#e8590c", penwidth=3]' : ''
+        }`,
+      )
+    }
+  }
+
+  lines.push('}')
+  return lines.join('\n') + '\n'
+}
+
+type SpanAttributeValue = string | number | boolean | string[]
+
+// The parts of an OpenTelemetry `Span` that are used, so that any
+// implementation (or a test double) works without depending on the SDK
+export type OpenTelemetrySpan = {
+  setAttribute(key: string, value: SpanAttributeValue): unknown
+  addEvent(
+    name: string,
+    attributes?: Record<string, SpanAttributeValue>,
+  ): unknown
+  recordException(exception: any): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  end(): unknown
+}
+
+// The parts of an OpenTelemetry `Tracer` that are used
+export type OpenTelemetryTracer = {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, SpanAttributeValue> },
+    context?: any,
+  ): OpenTelemetrySpan
+}
+
+export type OpenTelemetryOptions = {
+  // Name of the span covering the whole graph (default: 'better-all')
+  spanName?: string
+  // Return a context with `span` as the active span, to parent task spans
+  // to the graph span, e.g. `(span) => trace.setSpan(context.active(), span)`
+  contextWithSpan?: (span: OpenTelemetrySpan) => unknown
+  // Run `fn` in `context`, so that spans created by the task itself are
+  // children of its span, e.g. `(ctx, fn) => context.with(ctx, fn)`
+  withContext?: <R>(context: any, fn: () => R) => R
+}
+
+// Values of OpenTelemetry's `SpanStatusCode`
+const SPAN_STATUS_OK = 1
+const SPAN_STATUS_ERROR = 2
+
+/**
+ * Create hooks that emit an OpenTelemetry span for the graph, with a child
+ * span for every task. Waiting on a dependency is recorded as a span event.
+ * The hooks can be reused across executions.
+ */
+export function createOpenTelemetryHooks(
+  tracer: OpenTelemetryTracer,
+  otelOptions: OpenTelemetryOptions = {},
+): TaskHooks {
+  const { spanName = 'better-all', contextWithSpan, withContext } = otelOptions
+  const graphSpans = new WeakMap<GraphHookInfo, OpenTelemetrySpan>()
+  const taskSpans = new WeakMap<
+    GraphHookInfo,
+    Map<string, OpenTelemetrySpan>
+  >()
+
+  const getTaskSpan = (task: TaskHookInfo) =>
+    taskSpans.get(task.graph)?.get(task.name)
+
+  const endSpan = (span: OpenTelemetrySpan, error?: unknown) => {
+    if (error instanceof FlowAbortedError) {
+      // Another task ended the flow, which isn't a failure of this task
+      span.addEvent('flow ended')
+    } else if (error !== undefined) {
+      span.recordException(error)
+      span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      })
+    } else {
+      span.setStatus({ code: SPAN_STATUS_OK })
+    }
+    span.end()
+  }
+
+  const endTaskSpan = (task: TaskHookInfo, error?: unknown) => {
+    const span = getTaskSpan(task)
+    if (!span) return
+    span.setAttribute('better_all.dependencies', task.dependencies)
+    endSpan(span, error)
+    taskSpans.get(task.graph)!.delete(task.name)
+  }
+
+  return {
+    onGraphStart(graph) {
+      graphSpans.set(
+        graph,
+        tracer.startSpan(spanName, {
+          attributes: { 'better_all.tasks': graph.tasks },
+        }),
+      )
+      taskSpans.set(graph, new Map())
+    },
+    onGraphEnd(graph, { error }) {
+      const span = graphSpans.get(graph)
+      if (!span) return
+      endSpan(span, error)
+      graphSpans.delete(graph)
+    },
+    onTaskStart(task) {
+      const graphSpan = graphSpans.get(task.graph)
+      const span = tracer.startSpan(
+        task.name,
+        { attributes: { 'better_all.task': task.name } },
+        graphSpan && contextWithSpan ? contextWithSpan(graphSpan) : undefined,
+      )
+      taskSpans.get(task.graph)?.set(task.name, span)
+    },
+    onTaskEnd(task) {
+      endTaskSpan(task)
+    },
+    onTaskError(task) {
+      endTaskSpan(task, task.error)
+    },
+    onDependencyWait(task, dependency) {
+      getTaskSpan(task)?.addEvent('waiting on dependency', {
+        'better_all.dependency': dependency,
+      })
+    },
+    wrapTask(task, next) {
+      const span = getTaskSpan(task)
+      if (!span || !contextWithSpan || !withContext) return next()
+      return withContext(contextWithSpan(span), next)
+    },
+  }
+}
+
+/**
+ * Compute the backoff delay before the next attempt of a task.
+ */
+function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(
+    (policy.delay ?? 100) * (policy.factor ?? 2) ** (attempt - 1),
+    policy.maxDelay ?? Infinity,
+  )
+  return policy.jitter === false ? delay : delay * (0.5 + Math.random() / 2)
+}
+
+/**
+ * Run a task function, re-invoking it according to its retry policy.
+ * Every attempt is recorded in `attempts`. Retrying stops as soon as
+ * `signal` is aborted, and the last error is thrown. Errors of failed
+ * dependencies and dependency cycles are never retried, as settled
+ * dependencies fail the same way on every attempt.
+ */
+async function runWithRetry(
+  fn: () => any,
+  policy: RetryPolicy | undefined,
+  signal: AbortSignal,
+  attempts: TaskTiming['attempts'],
+  isDependencyError: (err: unknown) => boolean,
+): Promise<any> {
+  for (let attempt = 1; ; attempt++) {
+    const start = performance.now()
+    try {
+      const value = await fn()
+      attempts.push({ start, end: performance.now() })
+      return value
+    } catch (err) {
+      attempts.push({ start, end: performance.now(), error: err })
+      if (
+        !policy ||
+        attempt >= policy.attempts ||
+        signal.aborted ||
+        err instanceof FlowEndError ||
+        err instanceof FlowAbortedError ||
+        err instanceof DependencyCycleError ||
+        isDependencyError(err) ||
+        (policy.shouldRetry && !policy.shouldRetry(err, attempt))
+      ) {
+        throw err
+      }
+
+      // Wait before retrying, but give up early if the task is aborted
+      const aborted = await new Promise<boolean>((resolve) => {
+        const onAbort = () => {
+          clearTimeout(timer)
+          resolve(true)
+        }
+        const timer = setTimeout(() => {
+          signal.removeEventListener('abort', onAbort)
+          resolve(false)
+        }, getRetryDelay(policy, attempt))
+        signal.addEventListener('abort', onAbort, { once: true })
+      })
+      if (aborted) throw err
+    }
+  }
+}
+
+/**
+ * Create an in-memory cache store that evicts the least recently used entry
+ * once it holds more than `maxSize` entries.
+ */
+export function createLRUCache(maxSize = 1000): CacheStore {
+  // Maps iterate in insertion order, so the first entry is the least
+  // recently used one
+  const entries = new Map<string, { value: unknown; expiresAt: number }>()
+  return {
+    get(key) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+      entries.delete(key)
+      if (entry.expiresAt <= Date.now()) return undefined
+      entries.set(key, entry)
+      return { value: entry.value }
+    },
+    set(key, value, ttl) {
+      entries.delete(key)
+      entries.set(key, {
+        value,
+        expiresAt: ttl === undefined ? Infinity : Date.now() + ttl,
+      })
+      if (entries.size > maxSize) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+  }
+}
+
+// Store of cache policies without a `store`
+const defaultCacheStore = createLRUCache()
+
+// Ids of tasks with results in the default store
+const cachedTaskIds = new WeakMap<object, number>()
+let nextCachedTaskId = 0
+
+/**
+ * Key of a task result in its cache store. Keys in the default store are
+ * scoped to the task function, so that unrelated graphs with a task of the
+ * same name don't share results.
+ */
+function getCacheKey(
+  policy: CachePolicy<any>,
+  task: object,
+  name: string,
+  input: unknown,
+): string {
+  const key = `${name}:${policy.key(input)}`
+  if (policy.store) return key
+  if (!cachedTaskIds.has(task)) cachedTaskIds.set(task, nextCachedTaskId++)
+  return `${cachedTaskIds.get(task)}:${key}`
+}
+
+// A running task shared by concurrent executions, with the signal of the
+// execution that runs it
+type InFlightResult = { promise: Promise<any>; signal: AbortSignal }
+
+// Running tasks by store and key
+const inFlightResults = new WeakMap<CacheStore, Map<string, InFlightResult>>()
+
+/**
+ * Take a task result from the cache or from a concurrent execution with the
+ * same key, or run the task and cache its result. `onHit` is called when the
+ * task didn't run itself.
+ */
+async function runCached(
+  key: string,
+  policy: CachePolicy<any>,
+  execute: () => Promise<any>,
+  onHit: () => void,
+  signal: AbortSignal,
+): Promise<any> {
+  const store = policy.store || defaultCacheStore
+  if (!inFlightResults.has(store)) {
+    inFlightResults.set(store, new Map())
+  }
+  const inFlight = inFlightResults.get(store)!
+
+  const running = inFlight.get(key)
+  if (running) {
+    try {
+      await running.promise
+    } catch {
+      // Cancelling the execution that runs the task doesn't cancel this one,
+      // so run the task again
+      if (running.signal.aborted && !signal.aborted) {
+        return runCached(key, policy, execute, onHit, signal)
+      }
+    }
+    onHit()
+    return running.promise
+  }
+
+  // Registered before the lookup, which may be async, so that concurrent
+  // executions don't miss each other
+  const promise = (async () => {
+    const hit = await store.get(key)
+    if (hit) {
+      onHit()
+      return hit.value
+    }
+    const value = await execute()
+    await store.set(key, value, policy.ttl)
+    return value
+  })()
+  const entry = { promise, signal }
+  inFlight.set(key, entry)
+  try {
+    return await promise
+  } finally {
+    if (inFlight.get(key) === entry) inFlight.delete(key)
+  }
+}
+
+/**
+ * A promise that calls `onAwait` when it is first awaited or chained, and
+ * settles like the promise returned by `onAwait`. Only attaching an error
+ * handler calls `onObserve` instead. Used to tell reading `this.$.x` apart
+ * from actually waiting on it.
+ */
+class AwaitedPromise<T> extends Promise<T> {
+  static get [Symbol.species]() {
+    return Promise
+  }
+
+  private awaited?: Promise<T>
+  private observed?: Promise<T>
+
+  constructor(
+    private readonly onAwait: () => Promise<T>,
+    private readonly onObserve = onAwait,
+  ) {
+    super(() => {})
+  }
+
+  then<R1 = T, R2 = never>(
+    onFulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onRejected?: ((reason: any) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    if (!onFulfilled && !this.awaited) {
+      if (!this.observed) this.observed = this.onObserve()
+      return this.observed.then(onFulfilled, onRejected)
+    }
+    if (!this.awaited) this.awaited = this.onAwait()
+    return this.awaited.then(onFulfilled, onRejected)
+  }
+}
+
+function isDeclaredTask(task: unknown): task is DeclaredTask {
+  return (
+    typeof task === 'object' &&
+    task !== null &&
+    Array.isArray((task as DeclaredTask).deps) &&
+    typeof (task as DeclaredTask).run === 'function'
+  )
+}
+
+/**
+ * Check the declared dependencies before any task runs: they must name
+ * existing tasks, and must not form a cycle. The dependencies of function
+ * tasks are only known once they run. Nested graphs allow unknown names,
+ * which may be tasks of the outer graph.
+ */
+function validateDeclaredTasks(
+  tasks: Record<string, unknown>,
+  allowUnknown = false,
+): void {
+  const path: string[] = []
+  const checked = new Set<string>()
+  const visit = (name: string) => {
+    const task = tasks[name]
+    if (checked.has(name) || !isDeclaredTask(task)) return
+    const index = path.indexOf(name)
+    if (index !== -1) {
+      throw new DependencyCycleError([...path.slice(index), name])
+    }
+    path.push(name)
+    for (const dep of task.deps) {
+      if (dep in tasks) {
+        visit(dep)
+      } else if (!allowUnknown) {
+        throw new Error(`Task "${name}" depends on unknown task "${dep}"`)
+      }
+    }
+    path.pop()
+    checked.add(name)
+  }
+  for (const name of Object.keys(tasks)) {
+    visit(name)
+  }
+}
+
 /**
  * Internal core implementation for executing tasks with automatic dependency resolution.
  * This is shared between `all`, `allSettled`, and `flow`.
@@ -176,13 +1558,45 @@ function executeTasksInternal<T extends Record<string, any>>(
   handleSettled: boolean,
   options: InternalExecutionOptions = {},
 ): Promise<any> {
+  if (options.concurrency !== undefined && !(options.concurrency >= 1)) {
+    return Promise.reject(
+      new RangeError(`Invalid concurrency ${options.concurrency}`),
+    )
+  }
+
+  const listedTasks = [...(options.targets || []), ...(options.optional || [])]
+  for (const name of listedTasks) {
+    if (!(name in tasks)) {
+      return Promise.reject(new Error(`Unknown task "${String(name)}"`))
+    }
+  }
+
+  try {
+    validateDeclaredTasks(tasks, !!options.parentDependency)
+  } catch (error) {
+    return Promise.reject(error)
+  }
+
+  // Tasks added with `this.$spawn` join the static ones while running
+  const taskFunctions: Record<string, any> = { ...tasks }
   const taskNames = Object.keys(tasks) as (keyof T)[]
   const results = new Map<keyof T, any>()
   const errors = new Map<keyof T, any>()
   const resolvers = new Map<
     keyof T,
-    [(value: any) => void, (reason?: any) => void][]
+    [(value: any) => void, (reason?: any) => void, keyof T][]
   >()
+  // Live wait-for graph: task -> dependencies it is currently blocked on
+  const waitingOn = new Map<keyof T, Set<keyof T>>()
+  // Dependencies that rejected while a task was waiting on them, with the error
+  const failedDependencies = new Map<keyof T, Map<keyof T, any>>()
+  // Tasks that failed only because a dependency failed -> that dependency
+  const dependencyFailures = new Map<keyof T, keyof T>()
+  // Tasks that failed only because the failure of another task aborted them
+  const abortedTasks = new Set<keyof T>()
+  let abortedByFailure = false
+  // Failed tasks listed in `optional`, which don't fail all()
+  const toleratedErrors = new Set<keyof T>()
   const returnValue: Record<string, any> = {}
 
   // Flow mode tracking
@@ -195,6 +1609,8 @@ function executeTasksInternal<T extends Record<string, any>>(
   // Controller to manage cleanup of the external signal listener
   const cleanupController = new AbortController()
 
+  const graphStartTime = performance.now()
+
   // If external signal is provided, propagate its abort to internal controller
   if (options.signal) {
     if (options.signal.aborted) {
@@ -208,17 +1624,204 @@ function executeTasksInternal<T extends Record<string, any>>(
     }
   }
 
-  // Debug tracking
+  // Debug and trace tracking
+  const tracing = !!(options.debug || options.onTrace || options.onExecution)
   const timings: TaskTiming[] = []
   const taskStartTimes = new Map<keyof T, number>()
   const taskDependencies = new Map<keyof T, Set<string>>()
-  const taskWaitPeriods = new Map<
+  const taskWaitPeriods = new Map<keyof T, TaskTiming['waitPeriods']>()
+  const taskQueuedPeriods = new Map<
     keyof T,
     Array<{ start: number; end: number }>
   >()
 
-  const waitForDep = (taskName: keyof T, depName: keyof T): Promise<any> => {
-    if (!(depName in tasks)) {
+  // Progress tracking. Tasks without a state are pending, and running tasks
+  // are waiting while they have unsettled dependencies. With `targets`, only
+  // the tasks that were reached count, so that progress can complete.
+  const trackStates = !!(options.onProgress || options.onExecution)
+  const taskStates = new Map<keyof T, 'running' | 'fulfilled' | 'rejected'>()
+  const pendingWaits = new Map<keyof T, number>()
+  const getTaskState = (name: keyof T): TaskState => {
+    const state = taskStates.get(name)
+    if (!state) return 'pending'
+    return state === 'running' && pendingWaits.get(name) ? 'waiting' : state
+  }
+  const setTaskState = (
+    name: keyof T,
+    state: 'running' | 'fulfilled' | 'rejected',
+  ) => {
+    taskStates.set(name, state)
+    reportProgress()
+  }
+  const reportProgress = () => {
+    if (!options.onProgress) return
+    const counted = options.targets ? Array.from(startedTasks) : taskNames
+    const progress: TaskProgress = {
+      total: counted.length,
+      pending: 0,
+      running: 0,
+      waiting: 0,
+      fulfilled: 0,
+      rejected: 0,
+    }
+    for (const name of counted) {
+      progress[getTaskState(name)]++
+    }
+    options.onProgress(progress)
+  }
+
+  // Lifecycle hooks need the dependencies and signal of each task
+  const hooks = options.hooks ? [options.hooks].flat() : []
+  const trackDependencies = tracing || hooks.length > 0
+  const taskSignals = new Map<keyof T, AbortSignal>()
+  const graphInfo: GraphHookInfo = {
+    tasks: taskNames.map(String),
+    signal: internalController.signal,
+    input: options.input,
+  }
+  const getTaskInfo = (name: keyof T): TaskHookInfo => ({
+    graph: graphInfo,
+    name: String(name),
+    dependencies: Array.from(taskDependencies.get(name) || []),
+    signal: taskSignals.get(name) || internalController.signal,
+    input: options.input,
+  })
+
+  // Concurrency tracking. Tasks blocked on a dependency give up their slot,
+  // and tasks resuming after a dependency are served before new tasks.
+  const slotHolders = new Set<keyof T>()
+  const startQueue: Array<() => void> = []
+  const resumeQueue: Array<() => void> = []
+  const waitCounts = new Map<keyof T, number>()
+  const finishedTasks = new Set<keyof T>()
+
+  /**
+   * Take a concurrency slot for a task. Returns a promise if the task has to
+   * queue for one, or `undefined` if it can run right away.
+   */
+  const acquireSlot = (
+    name: keyof T,
+    resume = false,
+  ): Promise<void> | undefined => {
+    if (options.concurrency === undefined) return undefined
+    // A task that finished while waiting doesn't need its slot back
+    if (finishedTasks.has(name)) return undefined
+    if (slotHolders.size < options.concurrency) {
+      slotHolders.add(name)
+      return undefined
+    }
+
+    const queuedAt = performance.now()
+    return new Promise((resolve) => {
+      ;(resume ? resumeQueue : startQueue).push(() => {
+        resolve()
+        // The task may have finished while it was queued, so the slot goes
+        // to the next task instead
+        if (finishedTasks.has(name)) {
+          const next = resumeQueue.shift() || startQueue.shift()
+          if (next) next()
+          return
+        }
+        slotHolders.add(name)
+        if (tracing) {
+          if (!taskQueuedPeriods.has(name)) {
+            taskQueuedPeriods.set(name, [])
+          }
+          taskQueuedPeriods
+            .get(name)!
+            .push({ start: queuedAt, end: performance.now() })
+        }
+      })
+    })
+  }
+
+  const releaseSlot = (name: keyof T) => {
+    if (!slotHolders.delete(name)) return
+    const next = resumeQueue.shift() || startQueue.shift()
+    if (next) next()
+  }
+
+  /**
+   * Release the task's slot while it awaits `promise`, and take one again
+   * before the task resumes
+   */
+  const yieldSlot = (name: keyof T, promise: Promise<any>): Promise<any> => {
+    if (finishedTasks.has(name)) return promise
+
+    const count = (waitCounts.get(name) || 0) + 1
+    waitCounts.set(name, count)
+    if (count === 1) releaseSlot(name)
+
+    const resume = () => {
+      const remaining = waitCounts.get(name)! - 1
+      waitCounts.set(name, remaining)
+      return remaining === 0 ? acquireSlot(name, true) : undefined
+    }
+    return promise.then(
+      async (value) => {
+        await resume()
+        return value
+      },
+      async (error) => {
+        await resume()
+        throw error
+      },
+    )
+  }
+
+  /**
+   * Check whether `taskName` starting to wait on `depName` would close a cycle
+   * in the wait-for graph. Returns the cycle path (e.g. `[a, b, a]`) if so.
+   */
+  const findCycle = (
+    taskName: keyof T,
+    depName: keyof T,
+  ): (keyof T)[] | undefined => {
+    const visited = new Set<keyof T>()
+    const visit = (current: keyof T): (keyof T)[] | undefined => {
+      if (current === taskName) return [current]
+      if (visited.has(current)) return undefined
+      visited.add(current)
+      for (const next of waitingOn.get(current) || []) {
+        const path = visit(next)
+        if (path) return [current, ...path]
+      }
+      return undefined
+    }
+    const path = visit(depName)
+    return path ? [taskName, ...path] : undefined
+  }
+
+  /**
+   * Reject every pending wait along the cycle so that all tasks on it fail
+   * with the same error instead of hanging forever.
+   */
+  const rejectCycle = (cycle: (keyof T)[]): DependencyCycleError => {
+    const error = new DependencyCycleError(cycle.map(String))
+    for (let i = 1; i < cycle.length - 1; i++) {
+      const waiter = cycle[i]
+      const dep = cycle[i + 1]
+      const pending = resolvers.get(dep)
+      if (!pending) continue
+      resolvers.set(
+        dep,
+        pending.filter(([, reject, name]) => {
+          if (name !== waiter) return true
+          reject(error)
+          return false
+        }),
+      )
+    }
+    return error
+  }
+
+  const waitForDep = (
+    taskName: keyof T,
+    depName: keyof T,
+  ): Promise<any> => {
+    // Nested graphs fall back to the tasks of the outer graph
+    const outer = !(depName in taskFunctions)
+    if (outer && !options.parentDependency) {
       return Promise.reject(new Error(`Unknown task "${String(depName)}"`))
     }
 
@@ -227,33 +1830,128 @@ function executeTasksInternal<T extends Record<string, any>>(
       return Promise.reject(new FlowAbortedError())
     }
 
-    // Track dependency for debug mode
-    if (options.debug) {
+    // With `targets`, tasks only start once they are needed
+    if (!outer) startTask(depName)
+
+    // Track dependency for debug mode and hooks
+    if (trackDependencies) {
       if (!taskDependencies.has(taskName)) {
         taskDependencies.set(taskName, new Set())
       }
       taskDependencies.get(taskName)!.add(String(depName))
     }
 
+    // The task only blocks on the dependency, which is what cycle detection
+    // and the concurrency limit look at, once it awaits it
+    return new AwaitedPromise(
+      () => blockOnDep(taskName, depName),
+      () => observeDep(taskName, depName),
+    )
+  }
+
+  /**
+   * A promise for the result of `depName` that doesn't block `taskName`, for
+   * tasks that only handle the errors of a dependency
+   */
+  const observeDep = (taskName: keyof T, depName: keyof T): Promise<any> => {
+    if (!(depName in taskFunctions)) {
+      return options.parentDependency!(String(depName))
+    }
+    if (results.has(depName)) return Promise.resolve(results.get(depName))
+    if (errors.has(depName)) return Promise.reject(errors.get(depName))
+    return new Promise((resolve, reject) => {
+      if (!resolvers.has(depName)) {
+        resolvers.set(depName, [])
+      }
+      resolvers.get(depName)!.push([resolve, reject, taskName])
+    })
+  }
+
+  /**
+   * Wait on `depName` from `taskName`: record the wait, fail it if it closes a
+   * cycle, and give up the task's concurrency slot until the dependency
+   * settles.
+   */
+  const blockOnDep = (taskName: keyof T, depName: keyof T): Promise<any> => {
+    const outer = !(depName in taskFunctions)
+    if (options.flowMode && flowEnded) {
+      return Promise.reject(new FlowAbortedError())
+    }
+
     let basePromise: Promise<any>
+    let pending = false
 
-    if (results.has(depName)) {
+    if (outer) {
+      // Waiting and cycles are handled by the outer graph, once awaited
+      basePromise = options.parentDependency!(String(depName)).then(
+        (value) => value,
+      )
+    } else if (results.has(depName)) {
       basePromise = Promise.resolve(results.get(depName))
     } else if (errors.has(depName)) {
       basePromise = Promise.reject(errors.get(depName))
     } else {
-      basePromise = new Promise((resolve, reject) => {
-        if (!resolvers.has(depName)) {
-          resolvers.set(depName, [])
+      const cycle = findCycle(taskName, depName)
+      if (cycle) {
+        basePromise = Promise.reject(rejectCycle(cycle))
+      } else {
+        if (!waitingOn.has(taskName)) {
+          waitingOn.set(taskName, new Set())
         }
-        resolvers.get(depName)!.push([resolve, reject])
-      })
+        waitingOn.get(taskName)!.add(depName)
+
+        pending = true
+        basePromise = new Promise((resolve, reject) => {
+          const stopWaiting = () => {
+            waitingOn.get(taskName)?.delete(depName)
+          }
+          if (!resolvers.has(depName)) {
+            resolvers.set(depName, [])
+          }
+          resolvers.get(depName)!.push([
+            (value) => {
+              stopWaiting()
+              resolve(value)
+            },
+            (reason) => {
+              stopWaiting()
+              reject(reason)
+            },
+            taskName,
+          ])
+        })
+      }
+    }
+
+    if (pending) {
+      for (const hook of hooks) {
+        hook.onDependencyWait?.(getTaskInfo(taskName), String(depName))
+      }
+      if (trackStates) {
+        const stopWaiting = () => {
+          pendingWaits.set(taskName, pendingWaits.get(taskName)! - 1)
+          // The task may have finished without awaiting this dependency
+          if (taskStates.get(taskName) === 'running') reportProgress()
+        }
+        pendingWaits.set(taskName, (pendingWaits.get(taskName) || 0) + 1)
+        reportProgress()
+        basePromise.then(stopWaiting, stopWaiting)
+      }
     }
 
+    // Remember rejected dependencies to tell collateral failures apart
+    let promise = basePromise.catch((error) => {
+      if (!failedDependencies.has(taskName)) {
+        failedDependencies.set(taskName, new Map())
+      }
+      failedDependencies.get(taskName)!.set(depName, error)
+      throw error
+    })
+
     // Wrap promise to track wait time in debug mode
-    if (options.debug) {
+    if (tracing) {
       const waitStart = performance.now()
-      return basePromise.then(
+      promise = promise.then(
         (value) => {
           const waitEnd = performance.now()
           if (!taskWaitPeriods.has(taskName)) {
@@ -261,7 +1959,11 @@ function executeTasksInternal<T extends Record<string, any>>(
           }
           taskWaitPeriods
             .get(taskName)!
-            .push({ start: waitStart, end: waitEnd })
+            .push({
+              start: waitStart,
+              end: waitEnd,
+              dependency: String(depName),
+            })
           return value
         },
         (error) => {
@@ -271,19 +1973,53 @@ function executeTasksInternal<T extends Record<string, any>>(
           }
           taskWaitPeriods
             .get(taskName)!
-            .push({ start: waitStart, end: waitEnd })
+            .push({
+              start: waitStart,
+              end: waitEnd,
+              dependency: String(depName),
+            })
           throw error
         },
       )
     }
 
-    return basePromise
+    // Blocked tasks don't count against the concurrency limit
+    if (pending && options.concurrency !== undefined) {
+      promise = yieldSlot(taskName, promise)
+    }
+
+    return promise
+  }
+
+  /**
+   * Resolve the effective deadline of a task: whichever of the graph timeout
+   * and the task's own timeout expires first.
+   */
+  const getDeadline = (
+    name: keyof T,
+  ): { at: number; timeout: number } | undefined => {
+    let deadline: { at: number; timeout: number } | undefined
+    if (options.timeout !== undefined) {
+      deadline = {
+        at: graphStartTime + options.timeout,
+        timeout: options.timeout,
+      }
+    }
+    const taskTimeout = options.taskOptions?.[name as string]?.timeout
+    if (taskTimeout !== undefined) {
+      const at = performance.now() + taskTimeout
+      if (!deadline || at < deadline.at) {
+        deadline = { at, timeout: taskTimeout }
+      }
+    }
+    return deadline
   }
 
   const handleResult = (name: keyof T, value: any) => {
     results.set(name, value)
     if (handleSettled) {
       returnValue[name as string] = { status: 'fulfilled', value }
+      options.onSettled?.(String(name), returnValue[name as string])
     } else if (!options.flowMode) {
       returnValue[name as string] = value
     }
@@ -297,7 +2033,21 @@ function executeTasksInternal<T extends Record<string, any>>(
   const handleError = (name: keyof T, err: any) => {
     errors.set(name, err)
     if (handleSettled) {
-      returnValue[name as string] = { status: 'rejected', reason: err }
+      if (options.reportSkipped && dependencyFailures.has(name)) {
+        // Follow the chain of dependency failures up to the task that broke
+        let cause = dependencyFailures.get(name)!
+        while (dependencyFailures.has(cause)) {
+          cause = dependencyFailures.get(cause)!
+        }
+        returnValue[name as string] = {
+          status: 'skipped',
+          reason: err,
+          cause: String(cause),
+        }
+      } else {
+        returnValue[name as string] = { status: 'rejected', reason: err }
+      }
+      options.onSettled?.(String(name), returnValue[name as string])
     }
     if (resolvers.has(name)) {
       for (const [, reject] of resolvers.get(name)!) {
@@ -306,25 +2056,79 @@ function executeTasksInternal<T extends Record<string, any>>(
     }
   }
 
-  // Run all tasks in parallel
-  const promises = taskNames.map(async (name) => {
+  // Create a unique dep proxy for each task to track dependencies
+  const createDepProxy = (name: keyof T) =>
+    new Proxy({} as DepProxy<T>, {
+      get(_, depName: string) {
+        return waitForDep(name, depName as keyof T)
+      },
+    })
+
+  const runTask = async (name: keyof T) => {
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined
+    const attempts: TaskTiming['attempts'] = []
+    // Set once the task has actually started, for the end and error hooks
+    let hookStartTime: number | undefined
+    let outcome: 'fulfilled' | 'rejected' = 'rejected'
+    let cached = false
     try {
-      const taskFn = tasks[name]
-      if (typeof taskFn !== 'function') {
-        throw new Error(`Task "${String(name)}" is not a function`)
-      }
-
       // Track start time for debug mode
-      if (options.debug) {
+      if (tracing) {
         taskStartTimes.set(name, performance.now())
       }
 
-      // Create a unique dep proxy for each task to track dependencies
-      const depProxy = new Proxy({} as DepProxy<T>, {
-        get(_, depName: string) {
-          return waitForDep(name, depName as keyof T)
-        },
-      })
+      // Declared tasks wait for their dependencies, and get their results as
+      // an argument
+      const task = taskFunctions[name as string]
+      const taskFn = isDeclaredTask(task)
+        ? async function (this: { $: Record<string, Promise<unknown>> }) {
+            const values = await Promise.all(
+              task.deps.map((dep) => this.$[dep]),
+            )
+            return task.run.call(
+              this,
+              Object.fromEntries(task.deps.map((dep, i) => [dep, values[i]])),
+            )
+          }
+        : task
+      if (typeof taskFn !== 'function') {
+        throw new Error(`Task "${String(name)}" is not a function`)
+      }
+
+      // Wait for a free slot when the number of running tasks is limited
+      const slot = acquireSlot(name)
+      if (slot) await slot
+      setTaskState(name, 'running')
+
+      const depProxy = createDepProxy(name)
+
+      // Optional access never rejects with the error of the dependency, but
+      // still stops the task when the flow has ended
+      const createOptionalProxy = (
+        onFulfilled: (value: any) => any,
+        onRejected: (reason: any) => any,
+      ) =>
+        new Proxy({} as Record<keyof T, Promise<any>>, {
+          get(_, depName: string) {
+            return new AwaitedPromise(() =>
+              waitForDep(name, depName as keyof T).then(
+                onFulfilled,
+                (reason) => {
+                  if (reason instanceof FlowAbortedError) throw reason
+                  return onRejected(reason)
+                },
+              ),
+            )
+          },
+        })
+      const settledProxy = createOptionalProxy(
+        (value) => ({ status: 'fulfilled', value }),
+        (reason) => ({ status: 'rejected', reason }),
+      )
+      const tryProxy = createOptionalProxy(
+        (value) => value,
+        () => undefined,
+      )
 
       // Create $end function for flow mode
       const $end = options.flowMode
@@ -337,20 +2141,158 @@ function executeTasksInternal<T extends Record<string, any>>(
           }
         : undefined
 
+      // Tasks with a deadline get their own signal so that a timeout only
+      // aborts the task that timed out
+      const deadline = getDeadline(name)
+      let taskSignal = internalController.signal
+      let timeoutPromise: Promise<never> | undefined
+      if (deadline) {
+        const taskController = new AbortController()
+        taskSignal = taskController.signal
+        if (internalController.signal.aborted) {
+          taskController.abort(internalController.signal.reason)
+        } else {
+          internalController.signal.addEventListener(
+            'abort',
+            () => taskController.abort(internalController.signal.reason),
+            { once: true, signal: taskController.signal },
+          )
+        }
+        timeoutPromise = new Promise<never>((_, reject) => {
+          timeoutTimer = setTimeout(() => {
+            const error = new TaskTimeoutError(String(name), deadline.timeout)
+            taskController.abort(error)
+            reject(error)
+          }, Math.max(0, deadline.at - performance.now()))
+        })
+      }
+
+      // Nested graphs share the signal and input of this task, and report
+      // their timings as children of it
+      const $all = (subTasks: Record<string, any>, subOptions = {}) =>
+        executeTasksInternal(subTasks, false, {
+          ...subOptions,
+          input: options.input,
+          signal: taskSignal,
+          onTrace: tracing
+            ? (subTimings) => {
+                timings.push(...nestTimings(subTimings, String(name)))
+              }
+            : undefined,
+          parentDependency: (depName) => waitForDep(name, depName as keyof T),
+        })
+
+      // Every item is a task of a nested graph, so that items are limited,
+      // aborted and traced like tasks
+      const $map = async (
+        dependency: keyof T,
+        fn: (item: any, index: number, signal: AbortSignal) => any,
+        mapOptions: MapOptions<boolean> = {},
+      ) => {
+        const items: unknown = await depProxy[dependency]
+        if (!Array.isArray(items)) {
+          throw new TypeError(
+            `Task "${String(dependency)}" did not return an array`,
+          )
+        }
+        const itemTasks: Record<string, () => Promise<unknown>> = {}
+        items.forEach((item, index) => {
+          itemTasks[`[${index}]`] = async function (this: {
+            $signal: AbortSignal
+          }) {
+            return fn(item, index, this.$signal)
+          }
+        })
+        const itemResults = await executeTasksInternal(
+          itemTasks,
+          !!mapOptions.settled,
+          {
+            concurrency: mapOptions.concurrency,
+            input: options.input,
+            signal: taskSignal,
+            onTrace: tracing
+              ? (subTimings) => {
+                  timings.push(...nestTimings(subTimings, String(name)))
+                }
+              : undefined,
+          },
+        )
+        return items.map((_, index) => itemResults[`[${index}]`])
+      }
+
       const context: any = {
         $: depProxy,
-        $signal: internalController.signal,
+        $settled: settledProxy,
+        $try: tryProxy,
+        $signal: taskSignal,
+        $input: options.input,
+        $all,
+        $map,
+        $spawn: spawnTask,
       }
 
       if (options.flowMode && $end) {
         context.$end = $end
       }
 
-      const result = await taskFn.call(context)
+      if (hooks.length > 0) {
+        taskSignals.set(name, taskSignal)
+        hookStartTime = performance.now()
+        for (const hook of hooks) {
+          hook.onTaskStart?.(getTaskInfo(name))
+        }
+      }
 
-      // Track end time and create timing record
-      if (options.debug) {
-        const endTime = performance.now()
+      // The first hook's wrapper is the outermost one
+      const invoke = hooks.reduceRight<() => Promise<unknown>>(
+        (next, hook) =>
+          hook.wrapTask
+            ? () => hook.wrapTask!(getTaskInfo(name), next)
+            : next,
+        async () => taskFn.call(context),
+      )
+
+      const execute = () =>
+        runWithRetry(
+          invoke,
+          options.taskOptions?.[name as string]?.retry,
+          taskSignal,
+          attempts,
+          (err) =>
+            Array.from(failedDependencies.get(name)?.values() || []).includes(
+              err,
+            ),
+        )
+      const cachePolicy = options.taskOptions?.[name as string]?.cache
+      const run = cachePolicy
+        ? runCached(
+            getCacheKey(cachePolicy, task, String(name), options.input),
+            cachePolicy,
+            execute,
+            () => {
+              cached = true
+            },
+            taskSignal,
+          )
+        : execute()
+      const result = await (timeoutPromise
+        ? Promise.race([run, timeoutPromise])
+        : run)
+      clearTimeout(timeoutTimer)
+      const endTime = performance.now()
+
+      if (hookStartTime !== undefined) {
+        const duration = endTime - hookStartTime
+        // A throwing end hook fails the task, without calling error hooks
+        hookStartTime = undefined
+        for (const hook of hooks) {
+          hook.onTaskEnd?.({ ...getTaskInfo(name), result, duration })
+        }
+      }
+
+      // Create the timing record once the end hooks have passed, as a
+      // throwing hook records the task as rejected instead
+      if (tracing) {
         const startTime = taskStartTimes.get(name)!
         timings.push({
           name: String(name),
@@ -360,16 +2302,49 @@ function executeTasksInternal<T extends Record<string, any>>(
           dependencies: Array.from(taskDependencies.get(name) || []),
           status: 'fulfilled',
           waitPeriods: taskWaitPeriods.get(name) || [],
+          queuedPeriods: taskQueuedPeriods.get(name) || [],
+          attempts,
+          ...(cached ? { cached } : {}),
         })
       }
 
       handleResult(name, result)
+      outcome = 'fulfilled'
     } catch (err) {
+      clearTimeout(timeoutTimer)
+
+      if (hookStartTime !== undefined) {
+        const duration = performance.now() - hookStartTime
+        // A throwing hook fails the task with its error, which still settles
+        // the task below so that dependents don't hang
+        try {
+          for (const hook of hooks) {
+            if (err instanceof FlowEndError) {
+              // Ending the flow is how the task completes
+              hook.onTaskEnd?.({
+                ...getTaskInfo(name),
+                result: err.value,
+                duration,
+              })
+            } else {
+              hook.onTaskError?.({
+                ...getTaskInfo(name),
+                error: err,
+                duration,
+              })
+            }
+          }
+        } catch (hookError) {
+          err = hookError
+        }
+      }
+
       // In flow mode, handle FlowEndError and FlowAbortedError specially
       if (options.flowMode) {
         if (err instanceof FlowEndError) {
           // This is intentional early exit, don't propagate as error.
           // Reject pending resolvers so dependent tasks don't hang forever.
+          outcome = 'fulfilled'
           handleError(name, new FlowAbortedError())
           return
         }
@@ -380,7 +2355,7 @@ function executeTasksInternal<T extends Record<string, any>>(
       }
 
       // Track end time for failed tasks too
-      if (options.debug) {
+      if (tracing) {
         const endTime = performance.now()
         const startTime = taskStartTimes.get(name)!
         timings.push({
@@ -389,23 +2364,173 @@ function executeTasksInternal<T extends Record<string, any>>(
           endTime,
           duration: endTime - startTime,
           dependencies: Array.from(taskDependencies.get(name) || []),
-          status: 'rejected',
+          status:
+            err instanceof TaskTimeoutError && err.task === String(name)
+              ? 'timedOut'
+              : 'rejected',
+          error: err,
           waitPeriods: taskWaitPeriods.get(name) || [],
+          queuedPeriods: taskQueuedPeriods.get(name) || [],
+          attempts,
         })
       }
 
+      // A fallback replaces the result of the failed task. Traces and hooks
+      // above still record the failure.
+      const taskOptions = options.taskOptions?.[name as string]
+      if (taskOptions && 'fallback' in taskOptions) {
+        try {
+          const { fallback } = taskOptions
+          const value =
+            typeof fallback === 'function'
+              ? await fallback(err, createDepProxy(name))
+              : fallback
+          handleResult(name, value)
+          outcome = 'fulfilled'
+          return
+        } catch (fallbackError) {
+          err = fallbackError
+        }
+      }
+
+      // A task that rethrows the error of a failed dependency is collateral
+      if (!(err instanceof DependencyCycleError)) {
+        for (const [dep, error] of failedDependencies.get(name) || []) {
+          if (error === err && errors.get(dep) === err) {
+            dependencyFailures.set(name, dep)
+            break
+          }
+        }
+      }
+      if (
+        abortedByFailure &&
+        !dependencyFailures.has(name) &&
+        (err === internalController.signal.reason ||
+          (err as Error)?.name === 'AbortError')
+      ) {
+        abortedTasks.add(name)
+      }
+
       handleError(name, err)
       if (!handleSettled) {
+        // Optional tasks may fail without failing the graph
+        if (options.optional?.includes(name)) {
+          toleratedErrors.add(name)
+          return
+        }
         // Abort other tasks when one fails (only for all(), not allSettled())
+        if (!internalController.signal.aborted) abortedByFailure = true
         internalController.abort(err)
         throw err
       }
+    } finally {
+      finishedTasks.add(name)
+      releaseSlot(name)
+      setTaskState(name, outcome)
     }
+  }
+
+  // Tasks can start while others are running, so completion is tracked on a
+  // growing list of promises. For all(), the first failure rejects right away.
+  const promises: Promise<void>[] = []
+  let rejectFirstError: (reason: any) => void
+  const firstError = new Promise<never>((_, reject) => {
+    rejectFirstError = reject
   })
+  // Only consumed by all() without aggregateErrors
+  firstError.catch(() => {})
+
+  const startTask = (name: keyof T) => {
+    if (startedTasks.has(name)) return
+    startedTasks.add(name)
+    const promise = runTask(name)
+    promise.catch((err) => rejectFirstError(err))
+    promises.push(promise)
+  }
+
+  // Add a task to the running graph and start it right away
+  const spawnTask = (name: string, fn: unknown) => {
+    if (name in taskFunctions) {
+      throw new Error(`Task "${name}" already exists`)
+    }
+    if (options.flowMode && flowEnded) {
+      throw new FlowAbortedError()
+    }
+    // Its result would never make it into the settled graph's result
+    if (graphSettled) {
+      throw new Error(
+        `Cannot spawn task "${name}" after the graph has settled`,
+      )
+    }
+    taskFunctions[name] = fn
+    taskNames.push(name)
+    graphInfo.tasks.push(name)
+    startTask(name)
+  }
+
+  let graphSettled = false
+  const settleAll = async (): Promise<PromiseSettledResult<void>[]> => {
+    let settled: PromiseSettledResult<void>[]
+    do {
+      settled = await Promise.allSettled(promises.slice())
+    } while (settled.length < promises.length)
+    graphSettled = true
+    return settled
+  }
+
+  if (options.onExecution) {
+    const checkTask = (name: string) => {
+      if (!taskNames.includes(name)) {
+        throw new Error(`Unknown task "${name}"`)
+      }
+    }
+    const getDependencies = (name: string) => {
+      const task = taskFunctions[name]
+      const dependencies = new Set<string>(
+        isDeclaredTask(task) ? task.deps : [],
+      )
+      for (const dep of taskDependencies.get(name) || []) {
+        dependencies.add(dep)
+      }
+      return Array.from(dependencies)
+    }
+    options.onExecution({
+      tasks: taskNames as string[],
+      getState(name) {
+        checkTask(name)
+        return getTaskState(name)
+      },
+      getDependencies(name) {
+        checkTask(name)
+        return getDependencies(name)
+      },
+      getDependents(name) {
+        checkTask(name)
+        return (taskNames as string[]).filter((task) =>
+          getDependencies(task).includes(name),
+        )
+      },
+      getTimings: () => timings.slice(),
+      getStatus: () =>
+        Object.fromEntries(
+          taskNames.map((name) => [name, getTaskState(name)]),
+        ),
+    })
+  }
+
+  for (const hook of hooks) {
+    hook.onGraphStart?.(graphInfo)
+  }
+
+  // Run all tasks (or only the targets) in parallel
+  const startedTasks = new Set<keyof T>()
+  for (const name of (options.targets as (keyof T)[]) || taskNames) {
+    startTask(name)
+  }
 
   const finalPromise = options.flowMode
     ? // For flow mode, use allSettled and handle flow end
-      Promise.allSettled(promises).then((results) => {
+      settleAll().then((results) => {
         cleanupController.abort()
 
         // Check if external signal was aborted
@@ -430,26 +2555,72 @@ function executeTasksInternal<T extends Record<string, any>>(
       })
     : handleSettled
       ? // For allSettled, wait for all promises to settle (never rejects)
-        Promise.allSettled(promises).then(() => returnValue)
-      : // For all, reject on first error (like Promise.all)
-        Promise.all(promises).then(() => returnValue)
+        settleAll().then(() => returnValue)
+      : options.aggregateErrors
+        ? // For all with aggregateErrors, wait for the failing wave to settle
+          settleAll().then(() => {
+            if (errors.size === toleratedErrors.size) return returnValue
+            // Tolerated failures only count as the cause of other failures
+            const causes = new Set(dependencyFailures.values())
+            const taskErrors: Record<string, unknown> = {}
+            for (const [name, error] of errors) {
+              if (toleratedErrors.has(name) && !causes.has(name)) continue
+              taskErrors[name as string] = error
+            }
+            const failures: Record<string, string> = {}
+            for (const [name, dep] of dependencyFailures) {
+              failures[name as string] = dep as string
+            }
+            throw new TaskGraphError(
+              taskErrors,
+              failures,
+              [...abortedTasks].map(String),
+            )
+          })
+        : // For all, reject on first error (like Promise.all)
+          Promise.race([firstError, settleAll().then(() => returnValue)])
 
   // Cleanup external signal listener when tasks complete
-  const withCleanup = options.flowMode
+  let withCleanup = options.flowMode
     ? finalPromise
     : finalPromise.finally(() => {
         cleanupController.abort()
       })
 
-  // Output waterfall chart in debug mode
-  if (options.debug) {
-    return withCleanup.then(
+  if (hooks.length > 0) {
+    const endGraph = (outcome: { error?: unknown }) => {
+      const duration = performance.now() - graphStartTime
+      for (const hook of hooks) {
+        hook.onGraphEnd?.(graphInfo, { duration, ...outcome })
+      }
+    }
+    withCleanup = withCleanup.then(
       (result) => {
-        console.log(generateWaterfallChart(timings))
+        endGraph({})
         return result
       },
       (error) => {
+        endGraph({ error })
+        throw error
+      },
+    )
+  }
+
+  // Output waterfall chart in debug mode, and hand timings to onTrace
+  if (tracing) {
+    const report = () => {
+      if (options.debug) {
         console.log(generateWaterfallChart(timings))
+      }
+      options.onTrace?.(timings)
+    }
+    return withCleanup.then(
+      (result) => {
+        report()
+        return result
+      },
+      (error) => {
+        report()
         throw error
       },
     )
@@ -489,24 +2660,41 @@ function executeTasksInternal<T extends Record<string, any>>(
  * const result = await all({
  *   async a() { return fetchWithSignal(this.$signal) }
  * }, { signal: controller.signal })
+ *
+ * @example
+ * // Only run `b` and the tasks it needs
+ * const result = await all({
+ *   async a() { return 1 },
+ *   async b() { return (await this.$.a) + 10 },
+ *   async c() { return 'unused' }
+ * }, { targets: ['b'] })
+ * // result: { a: 1, b: 11 }
+ *
+ * @example
+ * // Don't fail the graph if `b` fails
+ * const result = await all({
+ *   async a() { return 1 },
+ *   async b() { throw new Error('b failed') },
+ *   async c() { return (await this.$.a) + ((await this.$try.b) ?? 0) }
+ * }, { optional: ['b'] })
+ * // result: { a: 1, c: 1 }
  */
-export function all<T extends Record<string, any>>(
-  tasks: T &
-    ThisType<{
-      $: {
-        [K in keyof T]: ReturnType<T[K]> extends Promise<infer R>
-          ? Promise<R>
-          : Promise<ReturnType<T[K]>>
-      }
-      $signal: AbortSignal
-    }> & {
-      [K in keyof T as T[K] extends Function
-        ? K
-        : `Error: task \`${K & string}\` is not a function`]-?: T[K]
-    },
-  options?: ExecutionOptions,
-): Promise<AllResult<T>> {
-  return executeTasksInternal(tasks, false, options) as Promise<AllResult<T>>
+export function all<
+  T extends Record<string, any>,
+  I = undefined,
+  K extends keyof T = keyof T,
+  O extends keyof T = never,
+  D extends string = string,
+>(
+  tasks: T & ThisType<TaskThis<T, I>> & TaskFunctions<T, D>,
+  options?: ExecutionOptions<NoInfer<T>, I> & {
+    targets?: readonly K[]
+    optional?: readonly O[]
+  },
+): Promise<TargetResult<AllResult<T>, Exclude<K, O>>> {
+  return executeTasksInternal(tasks, false, options) as Promise<
+    TargetResult<AllResult<T>, Exclude<K, O>>
+  >
 }
 
 /**
@@ -529,33 +2717,132 @@ export function all<T extends Record<string, any>>(
  *   async a() { return 1 },
  *   async b() { throw new Error('failed') }
  * }, { debug: true })
+ *
+ * @example
+ * // Tell collateral failures apart
+ * const { a, b } = await allSettled({
+ *   async a() { throw new Error('failed') },
+ *   async b() { return (await this.$.a) + 10 }
+ * }, { reportSkipped: true })
+ * // a: { status: 'rejected', reason: Error('failed') }
+ * // b: { status: 'skipped', reason: Error('failed'), cause: 'a' }
  */
-export function allSettled<T extends Record<string, any>>(
-  tasks: T &
-    ThisType<{
-      $: {
-        [K in keyof T]: ReturnType<T[K]> extends Promise<infer R>
-          ? Promise<R>
-          : Promise<ReturnType<T[K]>>
-      }
-      $signal: AbortSignal
-    }> & {
-      [K in keyof T as T[K] extends Function
-        ? K
-        : `Error: task \`${K & string}\` is not a function`]-?: T[K]
-    },
-  options?: ExecutionOptions,
-): Promise<AllSettledResult<T>> {
+export function allSettled<
+  T extends Record<string, any>,
+  I = undefined,
+  K extends keyof T = keyof T,
+  S extends boolean = false,
+  D extends string = string,
+>(
+  tasks: T & ThisType<TaskThis<T, I>> & TaskFunctions<T, D>,
+  options?: ExecutionOptions<NoInfer<T>, I> & {
+    targets?: readonly K[]
+    reportSkipped?: S
+  },
+): Promise<TargetResult<AllSettledResult<T, S>, K>> {
   return executeTasksInternal(tasks, true, options) as Promise<
-    AllSettledResult<T>
+    TargetResult<AllSettledResult<T, S>, K>
   >
 }
 
 /**
- * Custom error class for early exit via $end()
- * @internal
+ * Execute tasks like `allSettled`, yielding each task as soon as it settles,
+ * e.g. to flush parts of a page while the rest is still loading. Breaking out
+ * of the loop aborts the remaining tasks.
+ *
+ * @example
+ * for await (const task of stream({
+ *   async header() { return renderHeader() },
+ *   async feed() { return renderFeed(await this.$.header) }
+ * })) {
+ *   if (task.status === 'fulfilled') flush(task.name, task.value)
+ * }
+ */
+export function stream<
+  T extends Record<string, any>,
+  I = undefined,
+  S extends boolean = false,
+  D extends string = string,
+>(
+  tasks: T & ThisType<TaskThis<T, I>> & TaskFunctions<T, D>,
+  options?: ExecutionOptions<NoInfer<T>, I> & { reportSkipped?: S },
+): AsyncGenerator<StreamResult<T, S>, void, undefined> {
+  return streamTasksInternal(tasks, options)
+}
+
+/**
+ * Run tasks in allSettled() mode and yield every settled task from a queue.
+ */
+async function* streamTasksInternal(
+  tasks: Record<string, any>,
+  options: ExecutionOptions<any, any> = {},
+): AsyncGenerator<any, void, undefined> {
+  // Aborted when the consumer stops early, or by the external signal
+  const controller = new AbortController()
+  const cleanupController = new AbortController()
+  if (options.signal) {
+    if (options.signal.aborted) {
+      controller.abort(options.signal.reason)
+    } else {
+      options.signal.addEventListener(
+        'abort',
+        () => controller.abort(options.signal!.reason),
+        { once: true, signal: cleanupController.signal },
+      )
+    }
+  }
+
+  const settled: any[] = []
+  let wake: (() => void) | undefined
+  let finished = false
+  let failure: { error: unknown } | undefined
+
+  executeTasksInternal(tasks, true, {
+    ...options,
+    signal: controller.signal,
+    onSettled(name, result) {
+      settled.push({ name, ...result })
+      wake?.()
+    },
+  }).then(
+    () => {
+      finished = true
+      wake?.()
+    },
+    (error) => {
+      // Invalid options
+      failure = { error }
+      finished = true
+      wake?.()
+    },
+  )
+
+  try {
+    while (true) {
+      if (settled.length > 0) {
+        yield settled.shift()!
+      } else if (finished) {
+        break
+      } else {
+        await new Promise<void>((resolve) => {
+          wake = resolve
+        })
+      }
+    }
+    if (failure) throw failure.error
+  } finally {
+    cleanupController.abort()
+    if (!finished) {
+      controller.abort()
+    }
+  }
+}
+
+/**
+ * Custom error class for early exit via $end().
+ * Thrown inside the task that called `$end()` and caught by `flow()`.
  */
-class FlowEndError extends Error {
+export class FlowEndError extends Error {
   constructor(public readonly value: any) {
     super('Flow ended early')
     this.name = 'FlowEndError'
@@ -563,16 +2850,71 @@ class FlowEndError extends Error {
 }
 
 /**
- * Custom error class for aborted dependency access
- * @internal
+ * Custom error class for aborted dependency access.
+ * Dependencies accessed after `$end()` was called reject with this error.
  */
-class FlowAbortedError extends Error {
+export class FlowAbortedError extends Error {
   constructor() {
     super('Flow has been ended, cannot access dependencies')
     this.name = 'FlowAbortedError'
   }
 }
 
+/**
+ * Error thrown when tasks wait on each other in a cycle (e.g. `a -> b -> a`).
+ * Every task on the cycle is rejected with the same instance.
+ */
+export class DependencyCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Dependency cycle detected: ${cycle.join(' -> ')}`)
+    this.name = 'DependencyCycleError'
+  }
+}
+
+/**
+ * Error thrown when a task exceeds its timeout, or the graph timeout.
+ * The task's `$signal` is aborted with the same instance.
+ */
+export class TaskTimeoutError extends Error {
+  constructor(
+    public readonly task: string,
+    public readonly timeout: number,
+  ) {
+    super(`Task "${task}" timed out after ${timeout}ms`)
+    this.name = 'TaskTimeoutError'
+  }
+}
+
+/**
+ * Error thrown by `all()` with `aggregateErrors: true`, once every task has
+ * settled. Maps each failed task to its error, and tells the tasks that
+ * actually broke apart from the ones that only failed because a dependency
+ * they awaited failed, or because they were aborted.
+ */
+export class TaskGraphError extends AggregateError {
+  // Tasks that failed on their own, not because of a dependency or an abort
+  readonly failedTasks: string[]
+
+  constructor(
+    // Error of every failed task, by task name
+    public readonly taskErrors: Record<string, unknown>,
+    // Failed dependency of every task that failed because of it, by task name
+    public readonly dependencyFailures: Record<string, string>,
+    // Tasks that failed because the failure of another task aborted them
+    public readonly abortedTasks: string[] = [],
+  ) {
+    const failedTasks = Object.keys(taskErrors).filter(
+      (name) => !(name in dependencyFailures) && !abortedTasks.includes(name),
+    )
+    super(
+      failedTasks.map((name) => taskErrors[name]),
+      `${failedTasks.length} task(s) failed: ${failedTasks.join(', ')}`,
+    )
+    this.name = 'TaskGraphError'
+    this.failedTasks = failedTasks
+  }
+}
+
 // Context available to each task in flow via `this`
 type FlowTaskContext<
   T extends Record<string, (...args: any[]) => any>,
@@ -629,25 +2971,154 @@ type FlowTaskContext<
  * })
  * // f = 'fast won'
  */
-export function flow<R, T extends Record<string, any> = Record<string, any>>(
-  tasks: T &
-    ThisType<{
-      $: {
-        [K in keyof T]: ReturnType<T[K]> extends Promise<infer U>
-          ? Promise<U>
-          : Promise<ReturnType<T[K]>>
-      }
-      $signal: AbortSignal
-      $end: (value: R) => never
-    }> & {
-      [K in keyof T as T[K] extends Function
-        ? K
-        : `Error: task \`${K & string}\` is not a function`]-?: T[K]
-    },
-  options?: ExecutionOptions,
+export function flow<
+  R,
+  T extends Record<string, any> = Record<string, any>,
+  I = any,
+  D extends string = string,
+>(
+  tasks: T & ThisType<FlowTaskThis<T, R, I>> & TaskFunctions<T, D>,
+  options?: ExecutionOptions<NoInfer<T>, I>,
 ): Promise<R | undefined> {
   return executeTasksInternal(tasks, false, {
     ...options,
     flowMode: true,
   }) as Promise<R | undefined>
 }
+
+// A reusable task graph returned by defineGraph()
+type Graph<T extends Record<string, any>, I = undefined> = {
+  readonly tasks: Readonly<T>
+  all<K extends keyof T = keyof T, O extends keyof T = never>(
+    options?: ExecutionOptions<T, I> & {
+      targets?: readonly K[]
+      optional?: readonly O[]
+    },
+  ): Promise<TargetResult<AllResult<T>, Exclude<K, O>>>
+  allSettled<K extends keyof T = keyof T, S extends boolean = false>(
+    options?: ExecutionOptions<T, I> & {
+      targets?: readonly K[]
+      reportSkipped?: S
+    },
+  ): Promise<TargetResult<AllSettledResult<T, S>, K>>
+  flow<R>(options?: ExecutionOptions<T, I>): Promise<R | undefined>
+  stream<S extends boolean = false>(
+    options?: ExecutionOptions<T, I> & { reportSkipped?: S },
+  ): AsyncGenerator<StreamResult<T, S>, void, undefined>
+}
+
+/**
+ * Validate tasks once and bind the runners of a reusable graph.
+ */
+function createGraph<T extends Record<string, any>, I>(
+  tasks: T,
+): Graph<T, I> {
+  for (const name of Object.keys(tasks)) {
+    if (typeof tasks[name] !== 'function' && !isDeclaredTask(tasks[name])) {
+      throw new Error(`Task "${name}" is not a function`)
+    }
+  }
+  validateDeclaredTasks(tasks)
+
+  // Copy so that later changes to the original object don't leak into runs
+  const definedTasks: T = Object.freeze({ ...tasks })
+
+  return {
+    tasks: definedTasks,
+    all(options) {
+      return executeTasksInternal(definedTasks, false, options)
+    },
+    allSettled(options) {
+      return executeTasksInternal(definedTasks, true, options)
+    },
+    flow(options) {
+      return executeTasksInternal(definedTasks, false, {
+        ...options,
+        flowMode: true,
+      })
+    },
+    stream(options) {
+      return streamTasksInternal(definedTasks, options)
+    },
+  }
+}
+
+/**
+ * Define a reusable task graph. Tasks are validated once, and the returned
+ * graph can be run any number of times with `.all()`, `.allSettled()` or
+ * `.flow()`, with the same type inference as the standalone functions.
+ *
+ * `this.$end` is only defined when the graph is run with `.flow()`, so it is
+ * typed as optional.
+ *
+ * @example
+ * // user-graph.ts
+ * export const userGraph = defineGraph({
+ *   async user() { return fetchUser() },
+ *   async posts() { return fetchPosts((await this.$.user).id) }
+ * })
+ *
+ * // handler.ts
+ * const { user, posts } = await userGraph.all({ signal: request.signal })
+ *
+ * @example
+ * // With a typed `this.$input`, declared up front
+ * const userGraph = defineGraph<{ userId: string }>()({
+ *   async user() { return fetchUser(this.$input.userId) }
+ * })
+ * await userGraph.all({ input: { userId: '1' } })
+ */
+export function defineGraph<I>(): <
+  T extends Record<string, any>,
+  D extends string = string,
+>(
+  tasks: T & ThisType<GraphTaskThis<T, I>> & TaskFunctions<T, D>,
+) => Graph<T, I>
+export function defineGraph<
+  T extends Record<string, any>,
+  D extends string = string,
+>(tasks: T & ThisType<GraphTaskThis<T>> & TaskFunctions<T, D>): Graph<T>
+export function defineGraph(tasks?: Record<string, any>): any {
+  if (tasks === undefined) {
+    return (tasks: Record<string, any>) => createGraph(tasks)
+  }
+  return createGraph(tasks)
+}
+
+/**
+ * Create a task that declares its dependencies up front, and whose `run` gets
+ * a typed argument. TypeScript can't infer it from the graph that
+ * the task is defined in, so the tasks it can depend on are given as a type
+ * argument instead, e.g. `typeof` an object of tasks that is spread into the
+ * graph. Dependency names are checked against them.
+ *
+ * @example
+ * const tasks = {
+ *   async user() { return fetchUser() },
+ *   async config() { return fetchConfig() }
+ * }
+ * const result = await all({
+ *   ...tasks,
+ *   feed: task<typeof tasks>()(['user', 'config'], ({ user, config }) =>
+ *     fetchFeed(user.id, config.pageSize)
+ *   )
+ * })
+ *
+ * @example
+ * // With a typed `this.$input`
+ * const feed = task<typeof tasks, { locale: string }>()(
+ *   ['user'],
+ *   async function ({ user }) {
+ *     return fetchFeed(user.id, this.$input.locale)
+ *   }
+ * )
+ */
+export function task<T extends Record<string, any>, I = undefined>(): <
+  const N extends keyof T & string,
+  R,
+>(
+  deps: readonly N[],
+  run: (this: TaskThis<T, I>, deps: DeclaredResults<T, N>) => R,
+) => TypedDeclaredTask<T, I, N, R> {
+  return (deps, run) => ({ deps, run })
+}
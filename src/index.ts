@@ -1 +1,36 @@
-export { all, allSettled, flow } from '../lib/index'
+export {
+  all,
+  allSettled,
+  flow,
+  stream,
+  defineGraph,
+  task,
+  generateWaterfallChart,
+  generateChromeTrace,
+  generateMermaidGraph,
+  generateDotGraph,
+  analyzeCriticalPath,
+  createOpenTelemetryHooks,
+  createLRUCache,
+  DependencyCycleError,
+  FlowAbortedError,
+  FlowEndError,
+  TaskGraphError,
+  TaskTimeoutError,
+} from '../lib/index'
+export type {
+  CacheStore,
+  ChromeTraceEvent,
+  CriticalPathAnalysis,
+  GraphHookInfo,
+  LateAwait,
+  OpenTelemetryOptions,
+  OpenTelemetrySpan,
+  OpenTelemetryTracer,
+  TaskHookInfo,
+  TaskExecution,
+  TaskHooks,
+  TaskProgress,
+  TaskState,
+  TaskTiming,
+} from '../lib/index'